@@ -0,0 +1,136 @@
+// Reference sync server for trying sync locally. It has no dependencies:
+//
+//   SYNC_TOKEN=<secret> SYNC_ORIGIN=http://localhost:5173 node server/syncServer.mjs
+//
+// then set the app's sync server to http://localhost:8787 and its token to the same secret.
+// Settings come from the environment:
+//   SYNC_PORT   port to listen on (8787)
+//   SYNC_DATA   JSON file the records are kept in (./sync-data.json)
+//   SYNC_TOKEN  required; clients must send it as a bearer token
+//   SYNC_ORIGIN the origin the app is served from; browsers on any other origin are refused
+//
+// The server only keeps the newest revision of each record and hands out everything changed
+// after a client's cursor; the merging itself is the same last-writer-wins rule as the app's.
+// Record values arrive encrypted by the app, so the server never sees session contents. The
+// first device to sync stores the salt and passphrase check every device derives the key with;
+// to change the passphrase, start again with a new data file.
+
+import { createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.SYNC_PORT || 8787);
+const DATA_FILE = process.env.SYNC_DATA || './sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const ORIGIN = process.env.SYNC_ORIGIN || '';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+if (!TOKEN) {
+  console.error('Set SYNC_TOKEN to the secret clients must send; the server does not run without one.');
+  process.exit(1);
+}
+
+// { seq, space?: { salt, iterations, check }, records: { [key]: { key, rev, deleted?, value?, seq } } }
+const store = existsSync(DATA_FILE) ? JSON.parse(readFileSync(DATA_FILE, 'utf8')) : { seq: 0, records: {} };
+
+function save() {
+  // Write then rename, so a crash never leaves a half-written file.
+  writeFileSync(DATA_FILE + '.tmp', JSON.stringify(store));
+  renameSync(DATA_FILE + '.tmp', DATA_FILE);
+}
+
+function isRecord(r) {
+  return r && typeof r.key === 'string' && typeof r.rev === 'string' && (r.deleted === true || (r.value && typeof r.value === 'object'));
+}
+
+function isSpace(s) {
+  return s && typeof s.salt === 'string' && typeof s.iterations === 'number'
+    && s.check && typeof s.check.iv === 'string' && typeof s.check.data === 'string';
+}
+
+function merge(changes) {
+  let changed = false;
+  for (const r of changes) {
+    if (!isRecord(r)) continue;
+    const current = store.records[r.key];
+    if (current && current.rev >= r.rev) continue;
+    store.records[r.key] = r.deleted ? { key: r.key, rev: r.rev, deleted: true, seq: ++store.seq } : { key: r.key, rev: r.rev, value: r.value, seq: ++store.seq };
+    changed = true;
+  }
+  if (changed) save();
+}
+
+function changesSince(since) {
+  return Object.values(store.records)
+    .filter(r => r.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map(({ seq: _omit, ...r }) => r);
+}
+
+// Hashing first gives equal lengths, which timingSafeEqual needs.
+function authorized(req) {
+  const digest = text => createHash('sha256').update(text).digest();
+  return timingSafeEqual(digest(req.headers.authorization || ''), digest(`Bearer ${TOKEN}`));
+}
+
+// Only the configured origin is told it may call the server; without one, no browser page is.
+function send(res, status, body) {
+  const headers = { 'Content-Type': 'application/json' };
+  if (ORIGIN) {
+    headers['Access-Control-Allow-Origin'] = ORIGIN;
+    headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization';
+    headers['Access-Control-Allow-Methods'] = 'GET, POST, OPTIONS';
+    headers.Vary = 'Origin';
+  }
+  res.writeHead(status, headers);
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const route = `${req.method} ${req.url}`;
+  if (route !== 'GET /space' && route !== 'POST /space' && route !== 'POST /sync') return send(res, 404, { error: 'Not found' });
+  if (!authorized(req)) return send(res, 401, { error: 'Unauthorized' });
+  if (route === 'GET /space') return send(res, 200, { space: store.space ?? null });
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (e) {
+    return send(res, 400, { error: e.message });
+  }
+  if (route === 'POST /space') {
+    // The first device's space is kept; any later one is told about it instead.
+    if (!store.space) {
+      if (!isSpace(body)) return send(res, 400, { error: 'Invalid space' });
+      store.space = { salt: body.salt, iterations: body.iterations, check: { iv: body.check.iv, data: body.check.data } };
+      save();
+    }
+    return send(res, 200, { space: store.space });
+  }
+  const since = Number(body?.since) || 0;
+  merge(Array.isArray(body?.changes) ? body.changes : []);
+  send(res, 200, { cursor: store.seq, changes: changesSince(since) });
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}, keeping records in ${DATA_FILE}`);
+  if (!ORIGIN) console.log('SYNC_ORIGIN is not set, so browsers will refuse to call the server from the app.');
+});
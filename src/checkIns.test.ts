@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { dueCheckIns, effectCurves } from './checkIns';
+import { consumption, MIN, session, T0 } from './testFixtures';
+
+describe('check-ins in a group session', () => {
+  const answer = { id: 'k1', timestamp: T0 + 15 * MIN, consumptionId: 'c1', offsetMin: 15, intensities: { Relaxed: 8 }, profileId: 'b' };
+  const s = session({ profileId: 'a', social: { numPeopleSharing: 2, participants: ['a', 'b'] }, consumptions: [consumption()], checkIns: [answer] });
+
+  it('stays due for the people who have not answered', () => {
+    expect(dueCheckIns([s], 'b', T0 + 20 * MIN)).toEqual([]);
+    expect(dueCheckIns([s], 'a', T0 + 20 * MIN).map(c => c.offsetMin)).toEqual([15]);
+  });
+
+  it("only draws each person's curves from their own answers", () => {
+    expect(effectCurves([s], 'b').effects).toEqual(['Relaxed']);
+    expect(effectCurves([s], 'a').points).toEqual([]);
+  });
+
+  it("counts answers without a profile as the owner's", () => {
+    const owners = { ...s, checkIns: [{ ...answer, profileId: undefined }] };
+    expect(dueCheckIns([owners], 'a', T0 + 20 * MIN)).toEqual([]);
+  });
+});
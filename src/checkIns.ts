@@ -0,0 +1,93 @@
+import type { ConsumptionEvent, EffectCheckIn, Session } from './types';
+import { ownerOf } from './profiles';
+
+export const CHECK_IN_OFFSETS_MIN = [15, 60, 180];
+
+// A scheduled check-in is only prompted for this long after it falls due.
+const PROMPT_WINDOW_MS = 2 * 3600 * 1000;
+
+export type DueCheckIn = {
+  sessionId: string;
+  consumption: ConsumptionEvent;
+  offsetMin: number;
+  dueAt: number;
+};
+
+// Everyone in a group session answers for themselves.
+export function answeredBy(s: Session, c: EffectCheckIn): string {
+  return c.profileId ?? ownerOf(s);
+}
+
+function answered(s: Session, profileId: string, consumptionId: string, offsetMin: number): boolean {
+  return (s.checkIns ?? []).some(c => c.consumptionId === consumptionId && c.offsetMin === offsetMin && answeredBy(s, c) === profileId);
+}
+
+// Every check-in in the prompt window that `profileId` has yet to answer, due or upcoming, oldest first.
+export function scheduledCheckIns(sessions: Session[], profileId: string, now: number, offsets = CHECK_IN_OFFSETS_MIN): DueCheckIn[] {
+  const result: DueCheckIn[] = [];
+  const maxOffsetMs = Math.max(...offsets) * 60000;
+  for (const s of sessions) {
+    for (const ev of s.consumptions) {
+      if (ev.timestamp + maxOffsetMs + PROMPT_WINDOW_MS < now) continue;
+      for (const offsetMin of offsets) {
+        const dueAt = ev.timestamp + offsetMin * 60000;
+        if (dueAt + PROMPT_WINDOW_MS < now || answered(s, profileId, ev.id, offsetMin)) continue;
+        result.push({ sessionId: s.id, consumption: ev, offsetMin, dueAt });
+      }
+    }
+  }
+  return result.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+export function dueCheckIns(sessions: Session[], profileId: string, now: number, offsets = CHECK_IN_OFFSETS_MIN): DueCheckIn[] {
+  return scheduledCheckIns(sessions, profileId, now, offsets).filter(c => c.dueAt <= now);
+}
+
+export function nextCheckInAt(sessions: Session[], profileId: string, now: number, offsets = CHECK_IN_OFFSETS_MIN): number | undefined {
+  return scheduledCheckIns(sessions, profileId, now, offsets).find(c => c.dueAt > now)?.dueAt;
+}
+
+export function addCheckIn(sessions: Session[], sessionId: string, checkIn: EffectCheckIn): Session[] {
+  return sessions.map(s => s.id === sessionId ? { ...s, checkIns: [...(s.checkIns ?? []), checkIn] } : s);
+}
+
+// Minutes between a check-in and the dose it follows (the linked one, else the latest before it).
+export function minutesSinceDose(s: Session, c: EffectCheckIn): number | undefined {
+  const linked = c.consumptionId ? s.consumptions.find(ev => ev.id === c.consumptionId) : undefined;
+  const dose = linked ?? s.consumptions.filter(ev => ev.timestamp <= c.timestamp).sort((a, b) => b.timestamp - a.timestamp)[0];
+  return dose ? (c.timestamp - dose.timestamp) / 60000 : undefined;
+}
+
+const CURVE_BUCKETS_MIN = [0, 15, 30, 60, 120, 180, 300, 480];
+
+export type EffectCurvePoint = { minute: number } & Record<string, number>;
+
+// Average intensity of each effect reported by `profileId`, bucketed by time since dose.
+export function effectCurves(sessions: Session[], profileId: string): { points: EffectCurvePoint[]; effects: string[] } {
+  const sums = new Map<number, Map<string, { total: number; n: number }>>();
+  const effectTotals = new Map<string, number>();
+  for (const s of sessions) {
+    for (const c of s.checkIns ?? []) {
+      if (c.skipped || answeredBy(s, c) !== profileId) continue;
+      const minutes = minutesSinceDose(s, c);
+      if (minutes === undefined) continue;
+      const bucket = [...CURVE_BUCKETS_MIN].reverse().find(b => minutes >= b) ?? 0;
+      const perEffect = sums.get(bucket) ?? new Map();
+      for (const [effect, value] of Object.entries(c.intensities)) {
+        const agg = perEffect.get(effect) ?? { total: 0, n: 0 };
+        agg.total += value;
+        agg.n++;
+        perEffect.set(effect, agg);
+        effectTotals.set(effect, (effectTotals.get(effect) ?? 0) + value);
+      }
+      sums.set(bucket, perEffect);
+    }
+  }
+  const effects = [...effectTotals.entries()].filter(([, t]) => t > 0).sort((a, b) => b[1] - a[1]).map(([e]) => e);
+  const points = [...sums.entries()].sort((a, b) => a[0] - b[0]).map(([minute, perEffect]) => {
+    const point: EffectCurvePoint = { minute } as EffectCurvePoint;
+    for (const [effect, agg] of perEffect) (point as Record<string, number>)[effect] = Math.round((agg.total / agg.n) * 10) / 10;
+    return point;
+  });
+  return { points, effects };
+}
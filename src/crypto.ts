@@ -0,0 +1,139 @@
+const PBKDF2_ITERATIONS = 310_000;
+const CHECK_TEXT = 'weed-sessions';
+
+// AES-GCM ciphertext with its IV, both base64.
+export type Sealed = { iv: string; data: string };
+
+// What is stored unencrypted so a password can be verified and the key re-derived.
+export type KeyCheck = {
+  salt: string;
+  iterations: number;
+  check: Sealed;
+};
+
+export type PasscodeConfig = KeyCheck & {
+  idleMinutes: number; // 0 disables the idle lock
+};
+
+export type EncryptedExport = {
+  format: 'weed-sessions-encrypted';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  content?: 'json' | 'csv'; // what was encrypted; older exports are always JSON
+} & Sealed;
+
+export class DecryptError extends Error {
+  constructor(message = 'Wrong passcode or corrupted data') {
+    super(message);
+    this.name = 'DecryptError';
+  }
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let s = '';
+  for (const b of new Uint8Array(buffer)) s += String.fromCharCode(b);
+  return btoa(s);
+}
+
+function fromBase64(text: string): ArrayBuffer {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0)).buffer as ArrayBuffer;
+}
+
+function randomBytes(length: number): ArrayBuffer {
+  return crypto.getRandomValues(new Uint8Array(length)).buffer as ArrayBuffer;
+}
+
+export async function deriveKey(password: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function sealText(key: CryptoKey, text: string): Promise<Sealed> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(data) };
+}
+
+export async function openText(key: CryptoKey, sealed: Sealed): Promise<string> {
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new DecryptError();
+  }
+}
+
+export function isSealed(value: unknown): value is Sealed {
+  return !!value && typeof value === 'object' && typeof (value as Sealed).iv === 'string' && typeof (value as Sealed).data === 'string';
+}
+
+export function isKeyCheck(value: unknown): value is KeyCheck {
+  const c = value as KeyCheck;
+  return !!c && typeof c === 'object' && typeof c.salt === 'string' && typeof c.iterations === 'number' && isSealed(c.check);
+}
+
+// Derives a key from a password under a fresh random salt.
+export async function createKey(password: string): Promise<{ check: KeyCheck; key: CryptoKey }> {
+  const salt = toBase64(randomBytes(16));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  return { check: { salt, iterations: PBKDF2_ITERATIONS, check: await sealText(key, CHECK_TEXT) }, key };
+}
+
+// Throws DecryptError when the password is wrong.
+export async function unlockKey(check: KeyCheck, password: string): Promise<CryptoKey> {
+  const key = await deriveKey(password, check.salt, check.iterations);
+  if (await openText(key, check.check) !== CHECK_TEXT) throw new DecryptError();
+  return key;
+}
+
+export async function createPasscode(passcode: string, idleMinutes: number): Promise<{ config: PasscodeConfig; key: CryptoKey }> {
+  const { check, key } = await createKey(passcode);
+  return { config: { ...check, idleMinutes }, key };
+}
+
+export function unlockPasscode(config: PasscodeConfig, passcode: string): Promise<CryptoKey> {
+  return unlockKey(config, passcode);
+}
+
+// The key for the persisted data, held in memory only while the app is unlocked.
+let activeKey: CryptoKey | undefined;
+
+export function setActiveKey(key: CryptoKey | undefined): void {
+  activeKey = key;
+}
+
+export function getActiveKey(): CryptoKey | undefined {
+  return activeKey;
+}
+
+export async function sealValue(value: unknown): Promise<unknown> {
+  return activeKey ? { sealed: await sealText(activeKey, JSON.stringify(value)) } : value;
+}
+
+export async function openValue<T>(stored: unknown): Promise<T> {
+  const sealed = (stored as { sealed?: unknown } | null)?.sealed;
+  if (!isSealed(sealed)) return stored as T;
+  if (!activeKey) throw new DecryptError('Data is locked');
+  return JSON.parse(await openText(activeKey, sealed)) as T;
+}
+
+export async function encryptExport(text: string, password: string, content: 'json' | 'csv' = 'json'): Promise<EncryptedExport> {
+  const salt = toBase64(randomBytes(16));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  return { format: 'weed-sessions-encrypted', kdf: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt, content, ...await sealText(key, text) };
+}
+
+export function isEncryptedExport(value: unknown): value is EncryptedExport {
+  return isSealed(value) && (value as EncryptedExport).format === 'weed-sessions-encrypted';
+}
+
+export async function decryptExport(payload: EncryptedExport, password: string): Promise<string> {
+  return openText(await deriveKey(password, payload.salt, payload.iterations), payload);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { consumptionsCsv, csvToSessions, parseCsv, parseNumber, sessionsCsv, toCsv } from './csv';
+import { consumption, HOUR, MIN, session, T0 } from './testFixtures';
+
+describe('toCsv', () => {
+  it('keeps text that a spreadsheet would run as a formula as text', () => {
+    const csv = toCsv(['notes', 'n'], [{ notes: '=HYPERLINK("http://x")', n: -1 }, { notes: '@SUM(A1)', n: 2 }]);
+    expect(parseCsv(csv).slice(1)).toEqual([["'=HYPERLINK(\"http://x\")", '-1'], ["'@SUM(A1)", '2']]);
+  });
+
+  it('round-trips a neutralized cell through the importer', () => {
+    const csv = sessionsCsv([session({ notes: '+1 with friends' })]);
+    const [header, ...rows] = parseCsv(csv);
+    const report = csvToSessions(rows, { start: header.indexOf('start'), notes: header.indexOf('notes') });
+    expect(report.sessions[0].notes).toBe('+1 with friends');
+  });
+});
+
+describe('csvToSessions', () => {
+  it('reports weights and THC that cannot be read instead of dropping them', () => {
+    const rows = [['2024-01-01 12:00', 'abc', '20'], ['2024-01-01 13:00', '0.5', 'high'], ['2024-01-01 14:00', '', '']];
+    const report = csvToSessions(rows, { start: 0, weightGrams: 1, thcPercent: 2 });
+    expect(report.errors).toEqual([
+      { index: 0, messages: ['unreadable weight "abc"'] },
+      { index: 1, messages: ['unreadable THC % "high"'] }
+    ]);
+    expect(report.sessions).toHaveLength(1);
+  });
+});
+
+describe('parseNumber', () => {
+  it('tells thousands separators from decimal commas', () => {
+    expect(parseNumber('1,000')).toBe(1000);
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('1.234,5')).toBe(1234.5);
+    expect(parseNumber('0,25')).toBe(0.25);
+    expect(parseNumber('0,250')).toBe(0.25);
+    expect(parseNumber('1,5')).toBe(1.5);
+    expect(parseNumber('1.234.567')).toBe(1234567);
+    expect(parseNumber('18.5 %')).toBe(18.5);
+    expect(parseNumber('1,2,3')).toBeUndefined();
+    expect(parseNumber(' ')).toBeUndefined();
+  });
+});
+
+describe('consumptionsCsv', () => {
+  it('adds session duration, gaps and tolerance before each dose', () => {
+    const first = session({ id: 'a', consumptions: [consumption({ id: 'a1' }), consumption({ id: 'a2', timestamp: T0 + 20 * MIN })] });
+    const second = session({ id: 'b', startTime: T0 + 3 * HOUR, endTime: T0 + 4 * HOUR, consumptions: [consumption({ id: 'b1', timestamp: T0 + 3 * HOUR })] });
+    const [header, ...rows] = parseCsv(consumptionsCsv([second, first]));
+    const col = (name: string) => rows.map(r => r[header.indexOf(name)]);
+    expect(col('consumption_id')).toEqual(['a1', 'a2', 'b1']);
+    expect(col('session_duration_min')).toEqual(['60', '60', '60']);
+    expect(col('session_gap_min')).toEqual(['', '', '120']);
+    expect(col('gap_since_prev_min')).toEqual(['', '20', '160']);
+    const tolerance = col('tolerance_at_start').map(Number);
+    expect(tolerance[0]).toBe(0);
+    expect(tolerance[1]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,311 @@
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import type { ConsumptionEvent, Product, Session } from './types';
+import { byTimeAsc, doseFromEvent, generateId, getTimeOfDay, intervalSincePrevious } from './utils';
+import { defaultDoseModel, type DoseModel } from './doseModel';
+import { DEFAULT_TOLERANCE_SETTINGS, toleranceAt, type ToleranceSettings } from './tolerance';
+import { sessionCost } from './inventory';
+import { validateSession } from './validation';
+import type { ImportRecordError, ImportReport } from './importData';
+
+dayjs.extend(customParseFormat);
+
+type Cell = string | number | undefined;
+
+// Spreadsheets run text starting with one of these as a formula, so notes or a place name
+// could carry one. A leading ' makes them show the text instead.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function quote(value: Cell): string {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? "'" + value : String(value);
+  return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+export function toCsv(columns: string[], rows: Record<string, Cell>[]): string {
+  return [columns.join(','), ...rows.map(r => columns.map(c => quote(r[c])).join(','))].join('\r\n') + '\r\n';
+}
+
+// RFC 4180 parser; also accepts `;` or tab separated files exported by spreadsheet apps.
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].sort((a, b) => firstLine.split(b).length - firstLine.split(a).length)[0];
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+const iso = (t: number | undefined) => t === undefined ? undefined : new Date(t).toISOString();
+const minutes = (ms: number | undefined) => ms === undefined ? undefined : Math.round(ms / 600) / 100;
+
+export const SESSION_COLUMNS = [
+  'session_id', 'start', 'end', 'duration_min', 'gap_since_prev_min', 'time_of_day', 'substance', 'people',
+  'consumptions', 'thc_g', 'absorbed_mg', 'tolerance_at_start', 'cost', 'place', 'weather', 'noise', 'light',
+  'music', 'activity', 'last_meal', 'mood', 'intention', 'supplements', 'effects', 'tags', 'notes'
+];
+
+export const CONSUMPTION_COLUMNS = [
+  'session_id', 'consumption_id', 'timestamp', 'weight_g', 'thc_percent', 'method', 'product', 'people', 'thc_g', 'absorbed_mg',
+  'session_duration_min', 'session_gap_min', 'gap_since_prev_min', 'tolerance_at_start', 'notes'
+];
+
+export type CsvExportOptions = {
+  doseModel?: DoseModel;
+  toleranceSettings?: ToleranceSettings;
+  products?: Product[];
+};
+
+export function sessionsCsv(sessions: Session[], opts: CsvExportOptions = {}): string {
+  const { doseModel = defaultDoseModel, toleranceSettings = DEFAULT_TOLERANCE_SETTINGS, products = [] } = opts;
+  const sorted = [...sessions].sort(byTimeAsc);
+  const tolerance = toleranceAt(sorted.map(s => s.startTime), sorted, toleranceSettings, doseModel);
+  const rows = sorted.map((s, idx) => {
+    const people = s.social.numPeopleSharing ?? 1;
+    const cost = sessionCost(s, products);
+    return {
+      session_id: s.id,
+      start: iso(s.startTime),
+      end: iso(s.endTime),
+      duration_min: minutes(s.endTime !== undefined ? s.endTime - s.startTime : undefined),
+      gap_since_prev_min: minutes(intervalSincePrevious(sorted, idx)),
+      time_of_day: s.timeOfDay,
+      substance: s.baseSubstance?.type,
+      people,
+      consumptions: s.consumptions.length,
+      thc_g: round(s.consumptions.reduce((acc, ev) => acc + doseFromEvent(ev, doseModel.shareOf(ev, people)), 0), 4),
+      absorbed_mg: round(s.consumptions.reduce((acc, ev) => acc + doseModel.absorbedDose(ev, people), 0) * 1000, 2),
+      tolerance_at_start: round(tolerance[idx], 2),
+      cost: cost !== undefined ? round(cost, 2) : undefined,
+      place: s.context.place,
+      weather: s.context.weather,
+      noise: s.context.noise,
+      light: s.context.light,
+      music: s.context.music,
+      activity: s.context.activity,
+      last_meal: s.user.lastMeal,
+      mood: s.user.mood,
+      intention: s.user.intention,
+      supplements: s.supplements.join('; '),
+      effects: s.effects.join('; '),
+      tags: s.tags?.join('; '),
+      notes: s.notes
+    };
+  });
+  return toCsv(SESSION_COLUMNS, rows);
+}
+
+// `gap_since_prev_min` is the time since the previous consumption; `tolerance_at_start` is the
+// level just before this one.
+export function consumptionsCsv(sessions: Session[], opts: CsvExportOptions = {}): string {
+  const { doseModel = defaultDoseModel, toleranceSettings = DEFAULT_TOLERANCE_SETTINGS, products = [] } = opts;
+  const names = new Map(products.map(p => [p.id, p.name]));
+  const sorted = [...sessions].sort(byTimeAsc);
+  const events = sorted.flatMap((s, idx) => [...s.consumptions].sort((a, b) => a.timestamp - b.timestamp).map(ev => ({ s, idx, ev })));
+  const tolerance = toleranceAt(events.map(({ ev }) => ev.timestamp), sorted, toleranceSettings, doseModel);
+  const rows = events.map(({ s, idx, ev }, i) => {
+    const people = s.social.numPeopleSharing ?? 1;
+    return {
+      session_id: s.id,
+      consumption_id: ev.id,
+      timestamp: iso(ev.timestamp),
+      weight_g: ev.weightGrams,
+      thc_percent: ev.thcPercent,
+      method: ev.method,
+      product: ev.productId ? names.get(ev.productId) ?? ev.productId : undefined,
+      people,
+      thc_g: round(doseFromEvent(ev, doseModel.shareOf(ev, people)), 4),
+      absorbed_mg: round(doseModel.absorbedDose(ev, people) * 1000, 2),
+      session_duration_min: minutes(s.endTime !== undefined ? s.endTime - s.startTime : undefined),
+      session_gap_min: minutes(intervalSincePrevious(sorted, idx)),
+      gap_since_prev_min: minutes(i > 0 ? Math.max(0, ev.timestamp - events[i - 1].ev.timestamp) : undefined),
+      tolerance_at_start: round(tolerance[i], 2),
+      notes: ev.notes
+    };
+  });
+  return toCsv(CONSUMPTION_COLUMNS, rows);
+}
+
+// Fields a CSV column can be mapped onto when importing.
+export type CsvField =
+  | 'sessionId' | 'start' | 'end' | 'durationMin' | 'weightGrams' | 'thcPercent' | 'method' | 'substance'
+  | 'people' | 'place' | 'activity' | 'mood' | 'intention' | 'effects' | 'tags' | 'notes';
+
+export const CSV_FIELDS: { field: CsvField; label: string; aliases: string[] }[] = [
+  { field: 'start', label: 'Start time (required)', aliases: ['start', 'date', 'datetime', 'time', 'timestamp', 'started'] },
+  { field: 'end', label: 'End time', aliases: ['end', 'ended', 'finish'] },
+  { field: 'durationMin', label: 'Duration (minutes)', aliases: ['duration', 'duration_min', 'minutes'] },
+  { field: 'sessionId', label: 'Session id (groups rows)', aliases: ['session_id', 'session', 'sessionid'] },
+  { field: 'weightGrams', label: 'Amount (g)', aliases: ['weight_g', 'weight', 'grams', 'amount', 'g'] },
+  { field: 'thcPercent', label: 'THC (%)', aliases: ['thc_percent', 'thc', 'thc%', 'potency'] },
+  { field: 'method', label: 'Method', aliases: ['method', 'type', 'route', 'how'] },
+  { field: 'substance', label: 'Strain / product', aliases: ['substance', 'strain', 'product', 'name'] },
+  { field: 'people', label: 'People sharing', aliases: ['people', 'sharing', 'people_sharing', 'group'] },
+  { field: 'place', label: 'Place', aliases: ['place', 'location', 'where'] },
+  { field: 'activity', label: 'Activity', aliases: ['activity', 'doing'] },
+  { field: 'mood', label: 'Mood', aliases: ['mood', 'feeling'] },
+  { field: 'intention', label: 'Intention', aliases: ['intention', 'purpose', 'reason'] },
+  { field: 'effects', label: 'Effects (separated by ; or |)', aliases: ['effects', 'effect'] },
+  { field: 'tags', label: 'Tags (separated by ; or |)', aliases: ['tags', 'tag', 'labels'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comment', 'comments'] }
+];
+
+export type CsvMapping = Partial<Record<CsvField, number>>; // field -> column index
+
+export function guessMapping(header: string[]): CsvMapping {
+  const normalized = header.map(h => h.trim().toLowerCase().replace(/\s+/g, '_'));
+  const mapping: CsvMapping = {};
+  const used = new Set<number>();
+  for (const { field, aliases } of CSV_FIELDS) {
+    const idx = normalized.findIndex((h, i) => !used.has(i) && aliases.includes(h));
+    if (idx >= 0) {
+      mapping[field] = idx;
+      used.add(idx);
+    }
+  }
+  return mapping;
+}
+
+export function parseCsvDate(value: string, format?: string): number | undefined {
+  const v = value.trim();
+  if (!v) return undefined;
+  if (/^\d{10,13}$/.test(v)) return v.length === 10 ? Number(v) * 1000 : Number(v);
+  const d = format ? dayjs(v, format, true) : dayjs(v);
+  return d.isValid() ? d.valueOf() : undefined;
+}
+
+// Reads numbers written with either decimal mark. With both marks present the last one is the
+// decimal mark; a lone comma is a thousands separator only in groups of three ("1,000"), not
+// after a leading zero ("0,250").
+export function parseNumber(value: string | undefined): number | undefined {
+  let text = value?.trim().replace(/%$/, '').replace(/[\s\u00a0\u202f']/g, '');
+  if (!text) return undefined;
+  const comma = text.lastIndexOf(',');
+  const dot = text.lastIndexOf('.');
+  if (comma >= 0 && dot >= 0) {
+    text = comma > dot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  } else if (comma >= 0) {
+    text = /^[-+]?[1-9]\d{0,2}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  } else if (/^[-+]?\d{1,3}(\.\d{3}){2,}$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+  const n = Number(text);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Turns mapped CSV rows into sessions. Rows that share a session id become one session with several consumptions.
+export function csvToSessions(rows: string[][], mapping: CsvMapping, dateFormat?: string): ImportReport {
+  const errors: ImportRecordError[] = [];
+  const groups = new Map<string, { session: Session; rows: number[] }>();
+  // Undoes the ' that our own exports put before formula-like text.
+  const get = (row: string[], field: CsvField) => mapping[field] !== undefined ? row[mapping[field]!]?.trim().replace(/^'(?=[=+\-@])/, '') : undefined;
+
+  if (mapping.start === undefined) {
+    return { sessions: [], errors: [{ index: -1, messages: ['Map a column to the start time'] }], total: rows.length };
+  }
+
+  rows.forEach((row, index) => {
+    const messages: string[] = [];
+    const start = parseCsvDate(get(row, 'start') ?? '', dateFormat);
+    if (start === undefined) messages.push(`unreadable start time "${get(row, 'start') ?? ''}"`);
+    const endRaw = get(row, 'end');
+    let end = endRaw ? parseCsvDate(endRaw, dateFormat) : undefined;
+    if (endRaw && end === undefined) messages.push(`unreadable end time "${endRaw}"`);
+    // A filled-in cell that is not a number is reported rather than read as empty.
+    const numberOf = (field: CsvField, label: string) => {
+      const raw = get(row, field);
+      const value = parseNumber(raw);
+      if (raw && value === undefined) messages.push(`unreadable ${label} "${raw}"`);
+      return value;
+    };
+    const duration = numberOf('durationMin', 'duration');
+    if (end === undefined && start !== undefined && duration !== undefined) end = start + duration * 60000;
+    const weight = numberOf('weightGrams', 'weight');
+    const thc = numberOf('thcPercent', 'THC %');
+    if (messages.length || start === undefined) {
+      errors.push({ index, messages });
+      return;
+    }
+
+    const key = get(row, 'sessionId') || `row-${index}`;
+    let group = groups.get(key);
+    if (!group) {
+      const people = parseNumber(get(row, 'people'));
+      group = {
+        rows: [],
+        session: {
+          id: get(row, 'sessionId') || generateId(),
+          startTime: start,
+          endTime: end ?? start,
+          active: false,
+          timeOfDay: getTimeOfDay(new Date(start)),
+          baseSubstance: { type: get(row, 'substance') || 'Unknown' },
+          context: { place: get(row, 'place'), activity: get(row, 'activity') },
+          social: { numPeopleSharing: people !== undefined ? Math.max(1, Math.round(people)) : 1 },
+          user: { mood: get(row, 'mood'), intention: get(row, 'intention') },
+          supplements: [],
+          effects: (get(row, 'effects') ?? '').split(/[;|]/).map(e => e.trim()).filter(Boolean),
+          tags: (get(row, 'tags') ?? '').split(/[;|]/).map(t => t.trim()).filter(Boolean),
+          notes: get(row, 'notes'),
+          consumptions: []
+        }
+      };
+      groups.set(key, group);
+    }
+    group.rows.push(index);
+    const s = group.session;
+    s.startTime = Math.min(s.startTime, start);
+    s.endTime = Math.max(s.endTime ?? start, end ?? start);
+    if (weight !== undefined && weight > 0) {
+      const ev: ConsumptionEvent = {
+        id: generateId('c'),
+        timestamp: start,
+        weightGrams: weight,
+        thcPercent: thc ?? 0,
+        method: get(row, 'method') || 'Joint'
+      };
+      s.consumptions.push(ev);
+    }
+  });
+
+  const sessions: Session[] = [];
+  for (const { session, rows: idx } of groups.values()) {
+    session.timeOfDay = getTimeOfDay(new Date(session.startTime));
+    session.consumptions.sort((a, b) => a.timestamp - b.timestamp);
+    const messages = validateSession(session);
+    if (messages.length) errors.push({ index: idx[0], id: session.id, messages });
+    else sessions.push(session);
+  }
+  return { sessions: sessions.sort(byTimeAsc), errors: errors.sort((a, b) => a.index - b.index), total: rows.length };
+}
@@ -0,0 +1,344 @@
+import type { AppData, ConsumptionEvent, Session } from './types';
+import { getActiveKey, openValue, sealValue, setActiveKey, type PasscodeConfig } from './crypto';
+import { ownerOf, profileKey } from './profiles';
+
+const DB_NAME = 'weed-sessions';
+const DB_VERSION = 1;
+const CHANNEL_NAME = 'weed-sessions';
+const SYNC_KEY = 'WEED_SESSIONS_SYNC';
+
+type SessionRecord = Omit<Session, 'consumptions'>;
+type ConsumptionRecord = ConsumptionEvent & { sessionId: string };
+type MetaRecord = { key: string; value: unknown };
+
+// Meta values that must stay readable while the app is locked. Each profile has its own active-session key.
+const PLAIN_META_KEYS = ['appData', 'passcode'];
+
+function isPlainMeta(key: string): boolean {
+  return PLAIN_META_KEYS.includes(key) || key.startsWith('activeSession');
+}
+
+function activeSessionKey(s: Session): string {
+  return profileKey(ownerOf(s), 'activeSession');
+}
+
+export class ActiveSessionConflictError extends Error {
+  constructor(public activeId: string) {
+    super('Another session is already active');
+    this.name = 'ActiveSessionConflictError';
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+export function openSessionDb(): Promise<IDBDatabase> {
+  dbPromise ??= openDb();
+  return dbPromise;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    db.createObjectStore('sessions', { keyPath: 'id' });
+    const events = db.createObjectStore('consumptions', { keyPath: 'id' });
+    events.createIndex('sessionId', 'sessionId');
+    db.createObjectStore('meta', { keyPath: 'key' });
+  };
+  return request(req);
+}
+
+function toRecord(s: Session): SessionRecord {
+  const { consumptions: _omit, ...rest } = s;
+  return rest;
+}
+
+// With a passcode set, only the ids and the active flag stay readable, so the
+// sessionId index and the cross-tab active check keep working.
+async function sealSession(s: Session): Promise<unknown> {
+  const rec = toRecord(s);
+  const sealed = await sealValue(rec);
+  return sealed === rec ? rec : { id: s.id, active: s.active, ...sealed as object };
+}
+
+async function sealEvent(ev: ConsumptionEvent, sessionId: string): Promise<unknown> {
+  const rec: ConsumptionRecord = { ...ev, sessionId };
+  const sealed = await sealValue(rec);
+  return sealed === rec ? rec : { id: ev.id, sessionId, ...sealed as object };
+}
+
+type SealedRecords = { sessions: unknown[]; events: unknown[] };
+
+async function sealAll(sessions: Session[]): Promise<SealedRecords> {
+  return {
+    sessions: await Promise.all(sessions.map(sealSession)),
+    events: await Promise.all(sessions.flatMap(s => s.consumptions.map(ev => sealEvent(ev, s.id))))
+  };
+}
+
+function fromRecord(rec: SessionRecord, events: ConsumptionRecord[]): Session {
+  const consumptions = events
+    .map(({ sessionId: _omit, ...ev }) => ev)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  return { ...rec, consumptions };
+}
+
+export async function getMeta<T>(db: IDBDatabase, key: string): Promise<T | undefined> {
+  const rec = await request(db.transaction('meta').objectStore('meta').get(key)) as MetaRecord | undefined;
+  return rec ? openValue<T>(rec.value) : undefined;
+}
+
+export async function setMeta(db: IDBDatabase, key: string, value: unknown): Promise<void> {
+  // Encrypt before opening the transaction: it would auto-commit while waiting on WebCrypto.
+  const stored = isPlainMeta(key) ? value : await sealValue(value);
+  const tx = db.transaction('meta', 'readwrite');
+  tx.objectStore('meta').put({ key, value: stored });
+  await completion(tx);
+}
+
+export async function deleteMeta(db: IDBDatabase, keys: string[]): Promise<void> {
+  const tx = db.transaction('meta', 'readwrite');
+  for (const key of keys) tx.objectStore('meta').delete(key);
+  await completion(tx);
+}
+
+export async function loadAllSessions(db: IDBDatabase): Promise<Session[]> {
+  const tx = db.transaction(['sessions', 'consumptions']);
+  const [rawRecords, rawEvents] = await Promise.all([
+    request(tx.objectStore('sessions').getAll()),
+    request(tx.objectStore('consumptions').getAll())
+  ]);
+  const records = await Promise.all(rawRecords.map(r => openValue<SessionRecord>(r)));
+  const events = await Promise.all(rawEvents.map(r => openValue<ConsumptionRecord>(r)));
+  const bySession = new Map<string, ConsumptionRecord[]>();
+  for (const ev of events) {
+    const list = bySession.get(ev.sessionId) ?? [];
+    list.push(ev);
+    bySession.set(ev.sessionId, list);
+  }
+  return records.map(rec => fromRecord(rec, bySession.get(rec.id) ?? []));
+}
+
+export async function loadSessionsById(db: IDBDatabase, ids: string[]): Promise<Map<string, Session | undefined>> {
+  const tx = db.transaction(['sessions', 'consumptions']);
+  const raw = await Promise.all(ids.map(async id => ({
+    id,
+    rec: await request(tx.objectStore('sessions').get(id)),
+    events: await request(tx.objectStore('consumptions').index('sessionId').getAll(id))
+  })));
+  const result = new Map<string, Session | undefined>();
+  for (const { id, rec, events } of raw) {
+    if (!rec) result.set(id, undefined);
+    else result.set(id, fromRecord(await openValue<SessionRecord>(rec), await Promise.all(events.map(ev => openValue<ConsumptionRecord>(ev)))));
+  }
+  return result;
+}
+
+function sessionRecordChanged(a: Session, b: Session): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Session>;
+  for (const k of keys) {
+    if (k !== 'consumptions' && a[k] !== b[k]) return true;
+  }
+  return false;
+}
+
+// Writes only the records whose objects changed between prev and next.
+export async function persistSessionChanges(db: IDBDatabase, prev: Session[], next: Session[]): Promise<string[]> {
+  const prevById = new Map(prev.map(s => [s.id, s]));
+  const nextIds = new Set(next.map(s => s.id));
+  const changed: string[] = [];
+  const sessionPuts: Promise<unknown>[] = [];
+  const eventPuts: Promise<unknown>[] = [];
+  const sessionDeletes: string[] = [];
+  const eventDeletes: string[] = [];
+
+  for (const s of next) {
+    const old = prevById.get(s.id);
+    if (old === s) continue;
+    changed.push(s.id);
+    if (!old || sessionRecordChanged(old, s)) sessionPuts.push(sealSession(s));
+    const oldEvents = new Map((old?.consumptions ?? []).map(ev => [ev.id, ev]));
+    for (const ev of s.consumptions) {
+      if (oldEvents.get(ev.id) !== ev) eventPuts.push(sealEvent(ev, s.id));
+      oldEvents.delete(ev.id);
+    }
+    eventDeletes.push(...oldEvents.keys());
+  }
+  for (const s of prev) {
+    if (nextIds.has(s.id)) continue;
+    changed.push(s.id);
+    sessionDeletes.push(s.id);
+    eventDeletes.push(...s.consumptions.map(ev => ev.id));
+  }
+  // Encrypt everything up front: the transaction would auto-commit while waiting on WebCrypto.
+  const [sessionRecords, eventRecords] = await Promise.all([Promise.all(sessionPuts), Promise.all(eventPuts)]);
+
+  const tx = db.transaction(['sessions', 'consumptions', 'meta'], 'readwrite');
+  const sessionsStore = tx.objectStore('sessions');
+  const eventsStore = tx.objectStore('consumptions');
+  const meta = tx.objectStore('meta');
+  const done = completion(tx);
+
+  const touched = [...next.filter(s => changed.includes(s.id)), ...prev.filter(s => !nextIds.has(s.id))];
+  const activeKeys = [...new Set(touched.map(activeSessionKey))];
+  const activeRecs = activeKeys.map(key => request(meta.get(key)) as Promise<MetaRecord | undefined>);
+  for (const rec of sessionRecords) sessionsStore.put(rec);
+  for (const rec of eventRecords) eventsStore.put(rec);
+  for (const id of sessionDeletes) sessionsStore.delete(id);
+  for (const id of eventDeletes) eventsStore.delete(id);
+
+  // Enforce a single active session per profile across tabs inside the same transaction.
+  for (const [i, key] of activeKeys.entries()) {
+    const current = (await activeRecs[i])?.value as string | undefined;
+    const nowActive = next.find(s => s.active && changed.includes(s.id) && activeSessionKey(s) === key);
+    let activeId = current;
+    if (current && !nextIds.has(current) && prevById.has(current)) activeId = undefined;
+    if (current && next.some(s => s.id === current && !s.active && changed.includes(s.id))) activeId = undefined;
+    if (nowActive) {
+      const other = activeId && activeId !== nowActive.id
+        ? await request(sessionsStore.get(activeId)) as Pick<SessionRecord, 'id' | 'active'> | undefined
+        : undefined;
+      if (other?.active) {
+        tx.abort();
+        await done.catch(() => {});
+        throw new ActiveSessionConflictError(other.id);
+      }
+      activeId = nowActive.id;
+    }
+    if (activeId !== current) {
+      if (activeId) meta.put({ key, value: activeId });
+      else meta.delete(key);
+    }
+  }
+  await done;
+  return changed;
+}
+
+function writeAll(tx: IDBTransaction, sessions: Session[], records: SealedRecords): void {
+  const sessionsStore = tx.objectStore('sessions');
+  const eventsStore = tx.objectStore('consumptions');
+  sessionsStore.clear();
+  eventsStore.clear();
+  for (const rec of records.sessions) sessionsStore.put(rec);
+  for (const rec of records.events) eventsStore.put(rec);
+  const meta = tx.objectStore('meta');
+  meta.delete(IDBKeyRange.bound('activeSession', 'activeSession:\uffff'));
+  for (const s of sessions) if (s.active) meta.put({ key: activeSessionKey(s), value: s.id });
+}
+
+export async function replaceAllSessions(db: IDBDatabase, data: AppData): Promise<void> {
+  const records = await sealAll(data.sessions);
+  const tx = db.transaction(['sessions', 'consumptions', 'meta'], 'readwrite');
+  writeAll(tx, data.sessions, records);
+  tx.objectStore('meta').put({ key: 'appData', value: { createdAt: data.createdAt, version: data.version } });
+  await completion(tx);
+}
+
+// Seeds an empty database from `load`. The check and the write share one transaction,
+// so two tabs opening at the same time cannot both seed. An empty database has no
+// passcode yet, so the records are written in plain text.
+export async function seedIfEmpty(db: IDBDatabase, load: () => AppData): Promise<AppData | undefined> {
+  const tx = db.transaction(['sessions', 'consumptions', 'meta'], 'readwrite');
+  const done = completion(tx);
+  const existing = await request(tx.objectStore('meta').get('appData'));
+  if (existing) {
+    await done;
+    return undefined;
+  }
+  const data = load();
+  writeAll(tx, data.sessions, {
+    sessions: data.sessions.map(toRecord),
+    events: data.sessions.flatMap(s => s.consumptions.map(ev => ({ ...ev, sessionId: s.id })))
+  });
+  tx.objectStore('meta').put({ key: 'appData', value: { createdAt: data.createdAt, version: data.version } });
+  await done;
+  return data;
+}
+
+// Rewrites every record under `key` (in plain text when undefined) and stores the
+// matching passcode config, all in one transaction. Must be called while unlocked.
+export async function reencryptDatabase(db: IDBDatabase, config: PasscodeConfig | undefined, key: CryptoKey | undefined): Promise<void> {
+  const sessions = await loadAllSessions(db);
+  const metaRecords = await request(db.transaction('meta').objectStore('meta').getAll()) as MetaRecord[];
+  const values = await Promise.all(metaRecords
+    .filter(m => !isPlainMeta(m.key))
+    .map(async m => ({ key: m.key, value: await openValue(m.value) })));
+
+  const previous = getActiveKey();
+  setActiveKey(key);
+  try {
+    const records = await sealAll(sessions);
+    const sealedMeta = await Promise.all(values.map(async m => ({ key: m.key, value: await sealValue(m.value) })));
+    const tx = db.transaction(['sessions', 'consumptions', 'meta'], 'readwrite');
+    writeAll(tx, sessions, records);
+    const meta = tx.objectStore('meta');
+    for (const m of sealedMeta) meta.put(m);
+    if (config) meta.put({ key: 'passcode', value: config });
+    else meta.delete('passcode');
+    await completion(tx);
+  } catch (e) {
+    setActiveKey(previous);
+    throw e;
+  }
+}
+
+type ChangeMessage =
+  | { type: 'sessions-changed'; ids: string[] }
+  | { type: 'meta-changed'; key: string };
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : undefined;
+
+function broadcast(msg: ChangeMessage): void {
+  if (channel) channel.postMessage(msg);
+  // `storage` events only fire in other tabs, which is exactly what we need as a fallback.
+  else localStorage.setItem(SYNC_KEY, JSON.stringify({ ...msg, at: Date.now() }));
+}
+
+function subscribe(onMessage: (msg: ChangeMessage) => void): () => void {
+  if (channel) {
+    const listener = (e: MessageEvent<ChangeMessage>) => { if (e.data) onMessage(e.data); };
+    channel.addEventListener('message', listener);
+    return () => channel.removeEventListener('message', listener);
+  }
+  const listener = (e: StorageEvent) => {
+    if (e.key !== SYNC_KEY || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue) as ChangeMessage);
+    } catch {
+      // ignore malformed sync messages
+    }
+  };
+  window.addEventListener('storage', listener);
+  return () => window.removeEventListener('storage', listener);
+}
+
+export function broadcastSessionChanges(ids: string[]): void {
+  if (ids.length) broadcast({ type: 'sessions-changed', ids });
+}
+
+export function subscribeToSessionChanges(onChange: (ids: string[]) => void): () => void {
+  return subscribe(msg => { if (msg.type === 'sessions-changed') onChange(msg.ids); });
+}
+
+export function broadcastMetaChange(key: string): void {
+  broadcast({ type: 'meta-changed', key });
+}
+
+export function subscribeToMetaChanges(onChange: (key: string) => void): () => void {
+  return subscribe(msg => { if (msg.type === 'meta-changed') onChange(msg.key); });
+}
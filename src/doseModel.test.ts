@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { activityCurve, computeSessionDose, createMethodDoseModel, DEFAULT_METHOD_PROFILES, sessionEffectCurve, validateMethodProfile } from './doseModel';
+import { consumption, MIN, session, T0 } from './testFixtures';
+
+describe('createMethodDoseModel', () => {
+  const model = createMethodDoseModel();
+
+  it('scales the THC consumed by the method bioavailability', () => {
+    expect(model.absorbedDose(consumption({ weightGrams: 1, thcPercent: 20, method: 'Vape' }), 1)).toBeCloseTo(0.2 * 0.35);
+    expect(model.absorbedDose(consumption({ weightGrams: 1, thcPercent: 20, method: 'Edible' }), 1)).toBeCloseTo(0.2 * 0.1);
+  });
+
+  it('falls back to the joint profile for unknown methods', () => {
+    expect(model.profileFor('Something new')).toEqual(DEFAULT_METHOD_PROFILES.Joint);
+  });
+
+  it('prefers the given profiles over the defaults', () => {
+    const custom = createMethodDoseModel({ Joint: { bioavailability: 0.5, onsetMin: 1, peakMin: 5, durationMin: 60 } });
+    expect(custom.absorbedDose(consumption({ weightGrams: 1, thcPercent: 10 }), 1)).toBeCloseTo(0.05);
+  });
+
+  it("counts a profile's recorded share in a group session", () => {
+    const ev = consumption({ weightGrams: 1, thcPercent: 20, shares: { a: 0.75 } });
+    expect(createMethodDoseModel(undefined, 'a').absorbedDose(ev, 2)).toBeCloseTo(0.2 * 0.25 * 0.75);
+    expect(createMethodDoseModel(undefined, 'b').absorbedDose(ev, 2)).toBeCloseTo(0.2 * 0.25 * 0.25);
+  });
+
+  it('has no effect before onset or after wear-off, and the full dose at peak', () => {
+    const ev = consumption({ method: 'Joint' });
+    const dose = model.absorbedDose(ev, 1);
+    expect(model.effectAt(ev, 1, T0 + MIN)).toBe(0);
+    expect(model.effectAt(ev, 1, T0 + 15 * MIN)).toBeCloseTo(dose);
+    expect(model.effectAt(ev, 1, T0 + 180 * MIN)).toBe(0);
+  });
+});
+
+describe('activityCurve', () => {
+  const p = DEFAULT_METHOD_PROFILES.Edible;
+
+  it('rises to 1 at peak and falls back to 0', () => {
+    expect(activityCurve(p, p.onsetMin)).toBe(0);
+    expect(activityCurve(p, p.peakMin)).toBe(1);
+    expect(activityCurve(p, (p.onsetMin + p.peakMin) / 2)).toBeCloseTo(0.5);
+    expect(activityCurve(p, p.durationMin)).toBe(0);
+  });
+});
+
+describe('validateMethodProfile', () => {
+  it('accepts the defaults and rejects out-of-order timings', () => {
+    for (const p of Object.values(DEFAULT_METHOD_PROFILES)) expect(validateMethodProfile(p)).toEqual([]);
+    expect(validateMethodProfile({ bioavailability: 0, onsetMin: 10, peakMin: 5, durationMin: 4 })).toHaveLength(3);
+  });
+});
+
+describe('computeSessionDose', () => {
+  it('adds up every consumption, split between the people sharing', () => {
+    const s = session({
+      social: { numPeopleSharing: 2 },
+      consumptions: [consumption({ id: 'a', weightGrams: 1, thcPercent: 20 }), consumption({ id: 'b', weightGrams: 0.5, thcPercent: 20 })]
+    });
+    expect(computeSessionDose(s)).toBeCloseTo((0.2 + 0.1) * 0.25 / 2);
+  });
+});
+
+describe('sessionEffectCurve', () => {
+  const model = createMethodDoseModel();
+  const peakOf = (curve: { minute: number; effect: number }[]) => curve.reduce((best, p) => p.effect > best.effect ? p : best);
+
+  it('gives an edible and a vape hit of the same THC different curves', () => {
+    const vape = sessionEffectCurve(session({ consumptions: [consumption({ method: 'Vape' })] }), model);
+    const edible = sessionEffectCurve(session({ consumptions: [consumption({ method: 'Edible' })] }), model);
+    expect(peakOf(vape).minute).toBe(DEFAULT_METHOD_PROFILES.Vape.peakMin);
+    expect(peakOf(edible).minute).toBe(DEFAULT_METHOD_PROFILES.Edible.peakMin);
+    expect(peakOf(vape).effect).toBeGreaterThan(peakOf(edible).effect);
+    expect(vape[vape.length - 1].minute).toBe(DEFAULT_METHOD_PROFILES.Vape.durationMin);
+    expect(edible[edible.length - 1].minute).toBe(DEFAULT_METHOD_PROFILES.Edible.durationMin);
+  });
+
+  it('adds up overlapping consumptions from the first one on', () => {
+    const one = session({ consumptions: [consumption({ id: 'a' })] });
+    const two = session({ consumptions: [consumption({ id: 'a' }), consumption({ id: 'b', timestamp: T0 + 10 * MIN })] });
+    const at = (curve: { minute: number; effect: number }[], minute: number) => curve.find(p => p.minute === minute)!.effect;
+    expect(at(sessionEffectCurve(two, model), 0)).toBe(0);
+    expect(at(sessionEffectCurve(two, model), 25)).toBeGreaterThan(at(sessionEffectCurve(one, model), 25));
+  });
+
+  it('is empty without consumptions', () => {
+    expect(sessionEffectCurve(session(), model)).toEqual([]);
+  });
+});
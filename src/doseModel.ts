@@ -0,0 +1,79 @@
+import type { ConsumptionEvent, Session } from './types';
+import { doseFromEvent, eventShare } from './utils';
+
+export type MethodProfile = {
+  bioavailability: number; // fraction of THC that reaches the bloodstream, 0-1
+  onsetMin: number; // minutes until effects begin
+  peakMin: number; // minutes until peak effect
+  durationMin: number; // minutes until effects have worn off
+};
+
+export type MethodProfiles = Record<string, MethodProfile>;
+
+// A dose model is for one person: with a profile id, group-session events count that profile's recorded share.
+export type DoseModel = {
+  // Fraction of the event this person consumed.
+  shareOf(ev: ConsumptionEvent, sharers: number | undefined): number;
+  absorbedDose(ev: ConsumptionEvent, sharers: number | undefined): number;
+  // Absorbed dose scaled by how strongly it is acting `at` (ms since epoch); 0 before onset and after wear-off.
+  effectAt(ev: ConsumptionEvent, sharers: number | undefined, at: number): number;
+  profileFor(method: string): MethodProfile;
+};
+
+export const FALLBACK_METHOD = 'Joint';
+
+export const DEFAULT_METHOD_PROFILES: MethodProfiles = {
+  Joint: { bioavailability: 0.25, onsetMin: 2, peakMin: 15, durationMin: 180 },
+  Pipe: { bioavailability: 0.25, onsetMin: 2, peakMin: 15, durationMin: 180 },
+  Bong: { bioavailability: 0.3, onsetMin: 1, peakMin: 12, durationMin: 180 },
+  Vape: { bioavailability: 0.35, onsetMin: 1, peakMin: 10, durationMin: 150 },
+  Edible: { bioavailability: 0.1, onsetMin: 45, peakMin: 150, durationMin: 480 },
+  Tincture: { bioavailability: 0.15, onsetMin: 20, peakMin: 90, durationMin: 360 },
+  Dab: { bioavailability: 0.4, onsetMin: 1, peakMin: 10, durationMin: 180 }
+};
+
+export function validateMethodProfile(p: MethodProfile): string[] {
+  const errors: string[] = [];
+  if (!(p.bioavailability > 0 && p.bioavailability <= 1)) errors.push('bioavailability must be between 0 and 100%');
+  if (!(p.onsetMin >= 0)) errors.push('onset must be zero or more minutes');
+  if (!(p.peakMin > p.onsetMin)) errors.push('peak must come after onset');
+  if (!(p.durationMin > p.peakMin)) errors.push('duration must be longer than time to peak');
+  return errors;
+}
+
+// Relative effect strength 0-1: eases in from onset to peak, then eases out until wear-off.
+export function activityCurve(p: MethodProfile, elapsedMin: number): number {
+  if (elapsedMin < p.onsetMin || elapsedMin >= p.durationMin) return 0;
+  if (elapsedMin < p.peakMin) return Math.sin(((elapsedMin - p.onsetMin) / (p.peakMin - p.onsetMin)) * Math.PI / 2) ** 2;
+  return Math.cos(((elapsedMin - p.peakMin) / (p.durationMin - p.peakMin)) * Math.PI / 2) ** 2;
+}
+
+export function createMethodDoseModel(profiles: MethodProfiles = DEFAULT_METHOD_PROFILES, profileId?: string): DoseModel {
+  const profileFor = (method: string) => profiles[method] ?? DEFAULT_METHOD_PROFILES[method] ?? DEFAULT_METHOD_PROFILES[FALLBACK_METHOD];
+  const shareOf = (ev: ConsumptionEvent, sharers: number | undefined) => eventShare(ev, sharers, profileId);
+  const absorbedDose = (ev: ConsumptionEvent, sharers: number | undefined) => doseFromEvent(ev, shareOf(ev, sharers)) * profileFor(ev.method).bioavailability;
+  return {
+    shareOf,
+    profileFor,
+    absorbedDose,
+    effectAt: (ev, sharers, at) => absorbedDose(ev, sharers) * activityCurve(profileFor(ev.method), (at - ev.timestamp) / 60000)
+  };
+}
+
+export const defaultDoseModel = createMethodDoseModel();
+
+export function computeSessionDose(s: Session, model: DoseModel = defaultDoseModel): number {
+  return s.consumptions.reduce((acc, ev) => acc + model.absorbedDose(ev, s.social.numPeopleSharing), 0);
+}
+
+export function sessionEffectCurve(s: Session, model: DoseModel, stepMin = 5): { minute: number; effect: number }[] {
+  if (!s.consumptions.length) return [];
+  const first = s.consumptions.reduce((t, ev) => Math.min(t, ev.timestamp), Infinity);
+  const last = s.consumptions.reduce((t, ev) => Math.max(t, ev.timestamp + model.profileFor(ev.method).durationMin * 60000), 0);
+  const points: { minute: number; effect: number }[] = [];
+  for (let t = first; t <= last; t += stepMin * 60000) {
+    const effect = s.consumptions.reduce((acc, ev) => acc + model.effectAt(ev, s.social.numPeopleSharing, t), 0);
+    points.push({ minute: Math.round((t - first) / 60000), effect: Math.round(effect * 10000) / 10000 });
+  }
+  return points;
+}
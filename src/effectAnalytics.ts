@@ -0,0 +1,159 @@
+import type { Product, Session } from './types';
+import { getTimeOfDay } from './utils';
+import { defaultDoseModel, type DoseModel } from './doseModel';
+
+// Used when no vocabulary is passed in; the vocabulary's negative effects take over otherwise.
+export const NEGATIVE_EFFECTS = ['Anxious', 'Paranoid'];
+
+// Keywords in a free-text intention, mapped to the effects that mean it was met.
+export const INTENTION_EFFECTS: Record<string, string[]> = {
+  relax: ['Relaxed'],
+  calm: ['Relaxed'],
+  sleep: ['Sleepy'],
+  social: ['Talkative', 'Euphoric'],
+  talk: ['Talkative'],
+  creat: ['Creative'],
+  focus: ['Focused'],
+  work: ['Focused'],
+  fun: ['Euphoric'],
+  appetite: ['Hungry'],
+  eat: ['Hungry']
+};
+
+export type Factor = 'product' | 'method' | 'dose' | 'timeOfDay' | 'mood' | 'intention' | 'place' | 'weather' | 'noise' | 'light' | 'music' | 'activity';
+
+export const FACTOR_LABELS: Record<Factor, string> = {
+  product: 'Product', method: 'Method', dose: 'Dose', timeOfDay: 'Time of day', mood: 'Mood', intention: 'Intention',
+  place: 'Place', weather: 'Weather', noise: 'Noise', light: 'Light', music: 'Music', activity: 'Activity'
+};
+
+const DOSE_BUCKETS: [number, string][] = [[5, '< 5 mg'], [10, '5–10 mg'], [20, '10–20 mg'], [40, '20–40 mg'], [Infinity, '40+ mg']];
+
+export function doseBucket(mg: number): string {
+  return DOSE_BUCKETS.find(([max]) => mg < max)![1];
+}
+
+function normalize(value: string | undefined): string | undefined {
+  const v = value?.trim();
+  return v ? v.charAt(0).toUpperCase() + v.slice(1).toLowerCase() : undefined;
+}
+
+// The method that delivered most of a session's absorbed dose.
+function dominantMethod(s: Session, doseModel: DoseModel): string | undefined {
+  const byMethod = new Map<string, number>();
+  for (const ev of s.consumptions) byMethod.set(ev.method, (byMethod.get(ev.method) ?? 0) + doseModel.absorbedDose(ev, s.social.numPeopleSharing));
+  return [...byMethod.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+export type SessionFeatures = Record<Factor, string | undefined>;
+
+export function sessionFeatures(s: Session, products: Product[], doseModel: DoseModel = defaultDoseModel): SessionFeatures {
+  const product = products.find(p => p.id === s.baseSubstance?.productId);
+  const doseMg = s.consumptions.reduce((acc, ev) => acc + doseModel.absorbedDose(ev, s.social.numPeopleSharing), 0) * 1000;
+  const type = s.baseSubstance?.type;
+  return {
+    product: product?.name ?? (type && type !== 'Unknown' ? type.trim() : undefined),
+    method: dominantMethod(s, doseModel),
+    dose: s.consumptions.length ? doseBucket(doseMg) : undefined,
+    timeOfDay: s.timeOfDay ?? getTimeOfDay(new Date(s.startTime)),
+    mood: normalize(s.user.mood),
+    intention: normalize(s.user.intention),
+    place: normalize(s.context.place),
+    weather: normalize(s.context.weather),
+    noise: normalize(s.context.noise),
+    light: normalize(s.context.light),
+    music: normalize(s.context.music),
+    activity: normalize(s.context.activity)
+  };
+}
+
+// Lower bound of the 95% Wilson score interval: ranks rates while penalising small samples.
+export function wilsonLowerBound(hits: number, total: number): number {
+  if (!total) return 0;
+  const z = 1.96;
+  const p = hits / total;
+  return (p + z * z / (2 * total) - z * Math.sqrt((p * (1 - p) + z * z / (4 * total)) / total)) / (1 + z * z / total);
+}
+
+export type EffectAssociation = {
+  factor: Factor;
+  value: string;
+  effect: string;
+  sessions: number; // sessions with this factor value
+  hits: number; // of those, sessions reporting the effect
+  rate: number;
+  baseline: number; // rate of the effect across all sessions
+  score: number;
+};
+
+export function effectAssociations(sessions: Session[], products: Product[], doseModel: DoseModel = defaultDoseModel, minSessions = 2): EffectAssociation[] {
+  const rated = sessions.filter(s => s.effects.length);
+  if (!rated.length) return [];
+  const features = rated.map(s => sessionFeatures(s, products, doseModel));
+  const effects = [...new Set(rated.flatMap(s => s.effects))];
+  const groups = new Map<string, { factor: Factor; value: string; idx: number[] }>();
+  features.forEach((f, i) => {
+    for (const factor of Object.keys(f) as Factor[]) {
+      const value = f[factor];
+      if (!value) continue;
+      const key = factor + '\u0000' + value;
+      const g = groups.get(key) ?? { factor, value, idx: [] };
+      g.idx.push(i);
+      groups.set(key, g);
+    }
+  });
+
+  const result: EffectAssociation[] = [];
+  for (const effect of effects) {
+    const baseline = rated.filter(s => s.effects.includes(effect)).length / rated.length;
+    for (const g of groups.values()) {
+      if (g.idx.length < minSessions) continue;
+      const hits = g.idx.filter(i => rated[i].effects.includes(effect)).length;
+      if (!hits) continue;
+      result.push({ factor: g.factor, value: g.value, effect, sessions: g.idx.length, hits, rate: hits / g.idx.length, baseline, score: wilsonLowerBound(hits, g.idx.length) });
+    }
+  }
+  return result.sort((a, b) => b.score - a.score || b.sessions - a.sessions);
+}
+
+export function intentionEffects(intention: string): string[] {
+  const text = intention.toLowerCase();
+  const matched = Object.entries(INTENTION_EFFECTS).filter(([kw]) => text.includes(kw)).flatMap(([, effects]) => effects);
+  return matched.length ? [...new Set(matched)] : [normalize(intention)!];
+}
+
+export function metIntention(s: Session, negative: string[] = NEGATIVE_EFFECTS): boolean | undefined {
+  if (!s.user.intention?.trim() || !s.effects.length) return undefined;
+  const wanted = intentionEffects(s.user.intention);
+  return wanted.some(e => s.effects.includes(e)) && !s.effects.some(e => negative.includes(e));
+}
+
+export type Suggestion = {
+  product?: string;
+  method?: string;
+  dose?: string;
+  sessions: number;
+  met: number;
+  score: number;
+};
+
+export function suggestForIntention(intention: string, sessions: Session[], products: Product[], doseModel: DoseModel = defaultDoseModel, limit = 3, negative: string[] = NEGATIVE_EFFECTS): Suggestion[] {
+  const wanted = intentionEffects(intention);
+  const combos = new Map<string, Suggestion>();
+  for (const s of sessions) {
+    if (!s.effects.length || !s.consumptions.length) continue;
+    const f = sessionFeatures(s, products, doseModel);
+    // Sessions with a different stated intention still count if they produced the wanted effects.
+    const met = wanted.some(e => s.effects.includes(e)) && !s.effects.some(e => negative.includes(e));
+    const key = [f.product, f.method, f.dose].join('\u0000');
+    const c = combos.get(key) ?? { product: f.product, method: f.method, dose: f.dose, sessions: 0, met: 0, score: 0 };
+    c.sessions++;
+    if (met) c.met++;
+    combos.set(key, c);
+  }
+  return [...combos.values()]
+    .map(c => ({ ...c, score: wilsonLowerBound(c.met, c.sessions) }))
+    .filter(c => c.met > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,154 @@
+import dayjs from 'dayjs';
+import type { ConsumptionEvent, Session } from './types';
+import { byTimeAsc, formatDuration, intervalSincePrevious } from './utils';
+import { computeSessionDose, defaultDoseModel, type DoseModel } from './doseModel';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export type ToleranceBreak = {
+  id: string;
+  start: number;
+  end: number;
+  note?: string;
+};
+
+// Unset limits are not enforced. Dose limits are absorbed THC in mg per person.
+export type Goals = {
+  maxGramsPerDay?: number;
+  maxGramsPerWeek?: number;
+  maxDoseMgPerDay?: number;
+  maxDoseMgPerWeek?: number;
+  maxSessionsPerDay?: number;
+  minGapHours?: number;
+  breaks: ToleranceBreak[];
+};
+
+export const DEFAULT_GOALS: Goals = { breaks: [] };
+
+// What the user is about to do: start a session and/or log a consumption at `at`.
+export type PlannedUse = {
+  at: number;
+  newSession: boolean;
+  grams: number; // per person
+  doseMg: number; // absorbed, per person
+};
+
+type Totals = { grams: number; doseMg: number; sessions: number };
+
+function totalsBetween(sessions: Session[], from: number, to: number, doseModel: DoseModel): Totals {
+  const totals: Totals = { grams: 0, doseMg: 0, sessions: 0 };
+  for (const s of sessions) {
+    if (s.startTime >= from && s.startTime < to) totals.sessions++;
+    const share = (ev: ConsumptionEvent) => doseModel.shareOf(ev, s.social.numPeopleSharing);
+    // A session fully inside the window can use the session total directly.
+    const within = s.consumptions.every(ev => ev.timestamp >= from && ev.timestamp < to);
+    if (within) {
+      totals.doseMg += computeSessionDose(s, doseModel) * 1000;
+      totals.grams += s.consumptions.reduce((acc, ev) => acc + ev.weightGrams * share(ev), 0);
+      continue;
+    }
+    for (const ev of s.consumptions) {
+      if (ev.timestamp < from || ev.timestamp >= to) continue;
+      totals.doseMg += doseModel.absorbedDose(ev, s.social.numPeopleSharing) * 1000;
+      totals.grams += ev.weightGrams * share(ev);
+    }
+  }
+  return totals;
+}
+
+export function activeBreak(goals: Goals, at: number): ToleranceBreak | undefined {
+  return goals.breaks.find(b => at >= b.start && at < b.end);
+}
+
+function exceeds(value: number, limit: number | undefined): limit is number {
+  return limit !== undefined && limit > 0 && value > limit + 1e-9;
+}
+
+export function checkLimits(sessions: Session[], goals: Goals, plan: PlannedUse, doseModel: DoseModel = defaultDoseModel): string[] {
+  const warnings: string[] = [];
+  const brk = activeBreak(goals, plan.at);
+  if (brk) warnings.push(`You planned a tolerance break until ${new Date(brk.end).toLocaleDateString()}${brk.note ? ` (${brk.note})` : ''}`);
+
+  const dayStart = dayjs(plan.at).startOf('day').valueOf();
+  const weekStart = dayjs(plan.at).startOf('week').valueOf();
+  const day = totalsBetween(sessions, dayStart, dayStart + DAY_MS, doseModel);
+  const week = totalsBetween(sessions, weekStart, weekStart + 7 * DAY_MS, doseModel);
+
+  if (exceeds(day.grams + plan.grams, goals.maxGramsPerDay)) warnings.push(`Daily limit of ${goals.maxGramsPerDay} g would be exceeded (${(day.grams + plan.grams).toFixed(2)} g)`);
+  if (exceeds(week.grams + plan.grams, goals.maxGramsPerWeek)) warnings.push(`Weekly limit of ${goals.maxGramsPerWeek} g would be exceeded (${(week.grams + plan.grams).toFixed(2)} g)`);
+  if (exceeds(day.doseMg + plan.doseMg, goals.maxDoseMgPerDay)) warnings.push(`Daily dose limit of ${goals.maxDoseMgPerDay} mg would be exceeded (${(day.doseMg + plan.doseMg).toFixed(1)} mg)`);
+  if (exceeds(week.doseMg + plan.doseMg, goals.maxDoseMgPerWeek)) warnings.push(`Weekly dose limit of ${goals.maxDoseMgPerWeek} mg would be exceeded (${(week.doseMg + plan.doseMg).toFixed(1)} mg)`);
+  if (plan.newSession && exceeds(day.sessions + 1, goals.maxSessionsPerDay)) warnings.push(`Limit of ${goals.maxSessionsPerDay} session(s) per day would be exceeded`);
+
+  if (plan.newSession && goals.minGapHours) {
+    const sorted = [...sessions].filter(s => s.startTime <= plan.at).sort(byTimeAsc);
+    const planned = { startTime: plan.at } as Session;
+    const gap = intervalSincePrevious([...sorted, planned], sorted.length);
+    if (gap !== undefined && gap < goals.minGapHours * 3600 * 1000) {
+      warnings.push(`Only ${formatDuration(gap)} since your last session; your minimum gap is ${goals.minGapHours}h`);
+    }
+  }
+  return warnings;
+}
+
+export type DayAdherence = {
+  day: number; // local midnight, ms since epoch
+  sessions: number;
+  grams: number;
+  doseMg: number;
+  violations: string[];
+};
+
+export function dailyAdherence(sessions: Session[], goals: Goals, now: number, days = 30, doseModel: DoseModel = defaultDoseModel): DayAdherence[] {
+  const sorted = [...sessions].sort(byTimeAsc);
+  const result: DayAdherence[] = [];
+  const today = dayjs(now).startOf('day');
+  for (let i = days - 1; i >= 0; i--) {
+    const start = today.subtract(i, 'day').valueOf();
+    const end = today.subtract(i - 1, 'day').valueOf();
+    const totals = totalsBetween(sorted, start, end, doseModel);
+    const violations: string[] = [];
+    if (exceeds(totals.grams, goals.maxGramsPerDay)) violations.push('grams');
+    if (exceeds(totals.doseMg, goals.maxDoseMgPerDay)) violations.push('dose');
+    if (exceeds(totals.sessions, goals.maxSessionsPerDay)) violations.push('sessions');
+    if (totals.sessions && goals.breaks.some(b => b.start < end && b.end > start && sorted.some(s => s.startTime >= Math.max(start, b.start) && s.startTime < Math.min(end, b.end)))) violations.push('break');
+    if (goals.minGapHours) {
+      const gapMs = goals.minGapHours * 3600 * 1000;
+      sorted.forEach((s, idx) => {
+        if (s.startTime < start || s.startTime >= end) return;
+        const gap = intervalSincePrevious(sorted, idx);
+        if (gap !== undefined && gap < gapMs && !violations.includes('gap')) violations.push('gap');
+      });
+    }
+    result.push({ day: start, sessions: totals.sessions, grams: totals.grams, doseMg: totals.doseMg, violations });
+  }
+  return result;
+}
+
+export type Progress = {
+  msSinceLastSession?: number;
+  abstinenceStreakDays: number; // full days without a session, up to today
+  adherenceStreakDays: number; // consecutive days within all limits, up to today
+  longestBreakMs: number;
+};
+
+export function computeProgress(sessions: Session[], adherence: DayAdherence[], now: number): Progress {
+  const sorted = [...sessions].sort(byTimeAsc);
+  const last = sorted[sorted.length - 1];
+  const lastUse = last ? (last.active ? now : last.endTime ?? last.startTime) : undefined;
+  let longestBreakMs = 0;
+  for (let i = 1; i < sorted.length; i++) longestBreakMs = Math.max(longestBreakMs, intervalSincePrevious(sorted, i) ?? 0);
+  if (lastUse !== undefined) longestBreakMs = Math.max(longestBreakMs, now - lastUse);
+
+  let abstinenceStreakDays = 0;
+  for (let i = adherence.length - 1; i >= 0 && adherence[i].sessions === 0; i--) abstinenceStreakDays++;
+  let adherenceStreakDays = 0;
+  for (let i = adherence.length - 1; i >= 0 && adherence[i].violations.length === 0; i--) adherenceStreakDays++;
+
+  return {
+    msSinceLastSession: lastUse !== undefined ? now - lastUse : undefined,
+    abstinenceStreakDays,
+    adherenceStreakDays,
+    longestBreakMs
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from './types';
+import { applyMerge, mergeProducts, parseImport, planMerge } from './importData';
+import { CURRENT_VERSION } from './storage';
+import { consumption, HOUR, session, T0 } from './testFixtures';
+
+function product(overrides: Partial<Product> = {}): Product {
+  return { id: 'p1', name: 'Haze', thcPercent: 18, terpenes: { Myrcene: 0.5 }, purchaseDate: T0, initialGrams: 5, remainingGrams: 3, ...overrides };
+}
+
+describe('parseImport', () => {
+  it('round-trips the sessions and inventory of an export', () => {
+    const exported = { sessions: [session({ consumptions: [consumption({ productId: 'p1' })] })], products: [product()], version: CURRENT_VERSION };
+    const report = parseImport(JSON.stringify(exported));
+    expect(report.sessions).toEqual(exported.sessions);
+    expect(report.products).toEqual(exported.products);
+    expect(report.productErrors).toEqual([]);
+  });
+
+  it('rejects invalid and duplicate products', () => {
+    const report = parseImport(JSON.stringify({ sessions: [], products: [product(), product(), product({ id: 'p2', remainingGrams: -1 })], version: CURRENT_VERSION }));
+    expect(report.products).toHaveLength(1);
+    expect(report.productErrors?.map(e => e.index)).toEqual([1, 2]);
+  });
+
+  it('leaves the inventory alone for files without one', () => {
+    expect(parseImport(JSON.stringify({ sessions: [session()], version: CURRENT_VERSION })).products).toBeUndefined();
+  });
+});
+
+describe('mergeProducts', () => {
+  it('adds new products and keeps the local copy of known ones', () => {
+    const merged = mergeProducts([product({ remainingGrams: 1 })], [product({ remainingGrams: 3 }), product({ id: 'p2' })]);
+    expect(merged.map(p => [p.id, p.remainingGrams])).toEqual([['p1', 1], ['p2', 3]]);
+  });
+});
+
+describe('applyMerge', () => {
+  const running = (id: string, profileId: string, startTime: number) => session({ id, profileId, startTime, active: true, endTime: undefined });
+
+  it("keeps one active session per profile and leaves other profiles' running sessions alone", () => {
+    const local = [running('mine', 'a', T0), running('theirs', 'b', T0)];
+    const incoming = [running('old', 'a', T0 - HOUR)];
+    const merged = applyMerge(local, planMerge(local, incoming), {});
+    expect(merged.filter(s => s.active).map(s => s.id).sort()).toEqual(['mine', 'theirs']);
+    expect(merged.find(s => s.id === 'old')).toMatchObject({ active: false, endTime: T0 - HOUR });
+  });
+});
@@ -0,0 +1,152 @@
+import type { Product, Session } from './types';
+import { ownerOf } from './profiles';
+import { migrateAppData } from './storage';
+import { byTimeAsc } from './utils';
+import { validateProduct, validateSession } from './validation';
+
+export type ImportRecordError = {
+  index: number;
+  id?: string;
+  messages: string[];
+};
+
+export type ImportReport = {
+  sessions: Session[];
+  errors: ImportRecordError[];
+  total: number;
+  // Undefined when the file carries no inventory, so importing it leaves the local one alone.
+  products?: Product[];
+  productErrors?: ImportRecordError[];
+};
+
+export type SessionConflict = {
+  id: string;
+  local: Session;
+  incoming: Session;
+  fields: string[]; // top-level keys that differ
+};
+
+export type MergePlan = {
+  added: Session[];
+  unchanged: number;
+  conflicts: SessionConflict[];
+};
+
+export type ConflictChoice = 'local' | 'incoming';
+
+export function parseImport(text: string): ImportReport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { sessions: [], errors: [{ index: -1, messages: ['File is not valid JSON: ' + (e as Error).message] }], total: 0 };
+  }
+  let records: unknown[];
+  try {
+    // Exports from older versions are upgraded the same way stored data is.
+    records = migrateAppData(parsed).sessions;
+  } catch (e) {
+    return { sessions: [], errors: [{ index: -1, messages: [(e as Error).message] }], total: 0 };
+  }
+
+  const sessions: Session[] = [];
+  const errors: ImportRecordError[] = [];
+  const seen = new Set<string>();
+  records.forEach((rec, index) => {
+    const messages = validateSession(rec);
+    const id = rec && typeof rec === 'object' && typeof (rec as Session).id === 'string' ? (rec as Session).id : undefined;
+    if (!messages.length && id && seen.has(id)) messages.push('duplicate id within file');
+    if (messages.length) {
+      errors.push({ index, id, messages });
+      return;
+    }
+    seen.add(id!);
+    sessions.push(rec as Session);
+  });
+  const report: ImportReport = { sessions, errors, total: records.length };
+  const products = (parsed as { products?: unknown }).products;
+  if (Array.isArray(products)) Object.assign(report, parseProducts(products));
+  return report;
+}
+
+function parseProducts(records: unknown[]): { products: Product[]; productErrors: ImportRecordError[] } {
+  const products: Product[] = [];
+  const productErrors: ImportRecordError[] = [];
+  const seen = new Set<string>();
+  records.forEach((rec, index) => {
+    const messages = validateProduct(rec);
+    const id = rec && typeof rec === 'object' && typeof (rec as Product).id === 'string' ? (rec as Product).id : undefined;
+    if (!messages.length && id && seen.has(id)) messages.push('duplicate id within file');
+    if (messages.length) {
+      productErrors.push({ index, id, messages });
+      return;
+    }
+    seen.add(id!);
+    products.push(rec as Product);
+  });
+  return { products, productErrors };
+}
+
+// JSON with sorted keys and no undefined values, so equal records serialize equally.
+export function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.keys(v).sort().reduce((acc, k) => {
+        if (v[k] !== undefined) acc[k] = v[k];
+        return acc;
+      }, {} as Record<string, unknown>);
+    }
+    return v;
+  });
+}
+
+export function diffSessionFields(a: Session, b: Session): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Session>;
+  return [...keys].filter(k => canonical(a[k]) !== canonical(b[k])).sort();
+}
+
+export function planMerge(local: Session[], incoming: Session[]): MergePlan {
+  const byId = new Map(local.map(s => [s.id, s]));
+  const plan: MergePlan = { added: [], unchanged: 0, conflicts: [] };
+  for (const s of incoming) {
+    const existing = byId.get(s.id);
+    if (!existing) {
+      plan.added.push(s);
+      continue;
+    }
+    const fields = diffSessionFields(existing, s);
+    if (fields.length) plan.conflicts.push({ id: s.id, local: existing, incoming: s, fields });
+    else plan.unchanged++;
+  }
+  return plan;
+}
+
+// At most one session per profile may be active; the local one wins, otherwise the latest, and
+// the others are closed at their last event.
+function closeExtraActive(sessions: Session[], local: Session[]): Session[] {
+  const keep = new Map<string, string>();
+  for (const s of sessions.filter(s => s.active).sort(byTimeAsc)) keep.set(ownerOf(s), s.id);
+  for (const s of local) if (s.active) keep.set(ownerOf(s), s.id);
+  return sessions.map(s => {
+    if (!s.active || keep.get(ownerOf(s)) === s.id) return s;
+    const last = s.consumptions.reduce((t, ev) => Math.max(t, ev.timestamp), s.startTime);
+    return { ...s, active: false, endTime: s.endTime ?? last };
+  });
+}
+
+export function applyMerge(local: Session[], plan: MergePlan, choices: Record<string, ConflictChoice>): Session[] {
+  const replaced = new Map(plan.conflicts.filter(c => choices[c.id] === 'incoming').map(c => [c.id, c.incoming]));
+  const merged = [...local.map(s => replaced.get(s.id) ?? s), ...plan.added];
+  return closeExtraActive(merged, local).sort(byTimeAsc);
+}
+
+export function applyReplace(incoming: Session[]): Session[] {
+  return closeExtraActive(incoming, []).sort(byTimeAsc);
+}
+
+// Imported products are matched by id: new ones are added and known ones keep their local
+// copy, whose stock has moved on since the export.
+export function mergeProducts(local: Product[], incoming: Product[]): Product[] {
+  const known = new Set(local.map(p => p.id));
+  return [...local, ...incoming.filter(p => !known.has(p.id))];
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from './types';
+import { adjustStock } from './inventory';
+import { consumption, T0 } from './testFixtures';
+
+const haze: Product = { id: 'p1', name: 'Haze', thcPercent: 18, terpenes: {}, purchaseDate: T0, initialGrams: 5, remainingGrams: 3 };
+
+describe('adjustStock', () => {
+  it('takes added consumptions off and puts removed ones back', () => {
+    expect(adjustStock([haze], [], [consumption({ productId: 'p1', weightGrams: 0.5 })])[0].remainingGrams).toBeCloseTo(2.5);
+    expect(adjustStock([haze], [consumption({ productId: 'p1', weightGrams: 0.5 })], [])[0].remainingGrams).toBeCloseTo(3.5);
+  });
+
+  it('applies only the difference of an edited consumption', () => {
+    const before = [consumption({ productId: 'p1', weightGrams: 0.5 })];
+    expect(adjustStock([haze], before, [consumption({ productId: 'p1', weightGrams: 0.75 })])[0].remainingGrams).toBeCloseTo(2.75);
+  });
+
+  it('moves grams between products when the product changes', () => {
+    const other = { ...haze, id: 'p2' };
+    const next = adjustStock([haze, other], [consumption({ productId: 'p1' })], [consumption({ productId: 'p2' })]);
+    expect(next.map(p => p.remainingGrams)).toEqual([3.5, 2.5]);
+  });
+
+  it('leaves the list alone when nothing changed', () => {
+    const products = [haze];
+    const evs = [consumption({ productId: 'p1' }), consumption({ id: 'c2' })];
+    expect(adjustStock(products, evs, evs)).toBe(products);
+  });
+});
@@ -0,0 +1,87 @@
+import dayjs from 'dayjs';
+import type { ConsumptionEvent, Product, Session } from './types';
+
+export const DEFAULT_LOW_STOCK_GRAMS = 1;
+
+export function parseTerpenes(text: string): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const part of text.split(',')) {
+    const m = part.trim().match(/^(.*?)\s*(\d+(?:\.\d+)?)?\s*%?$/);
+    if (!m || !m[1]) continue;
+    result[m[1]] = m[2] ? Number(m[2]) : 0;
+  }
+  return result;
+}
+
+export function formatTerpenes(terpenes: Record<string, number>): string {
+  return Object.entries(terpenes)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, pct]) => pct ? `${name} ${pct}%` : name)
+    .join(', ');
+}
+
+export function pricePerGram(p: Product): number | undefined {
+  if (p.price === undefined || !(p.initialGrams > 0)) return undefined;
+  return p.price / p.initialGrams;
+}
+
+export function isLowStock(p: Product): boolean {
+  return !p.archived && p.remainingGrams <= (p.lowStockGrams ?? DEFAULT_LOW_STOCK_GRAMS);
+}
+
+export function deductStock(products: Product[], ev: ConsumptionEvent): Product[] {
+  if (!ev.productId) return products;
+  return products.map(p => p.id === ev.productId ? { ...p, remainingGrams: Math.max(0, p.remainingGrams - ev.weightGrams) } : p);
+}
+
+// Brings stock in line with edited consumptions: grams no longer logged go back to their
+// product and newly logged ones come off. An edited consumption counts as both.
+export function adjustStock(products: Product[], before: ConsumptionEvent[], after: ConsumptionEvent[]): Product[] {
+  const returned = new Map<string, number>();
+  const count = (ev: ConsumptionEvent, sign: number) => {
+    if (ev.productId) returned.set(ev.productId, (returned.get(ev.productId) ?? 0) + sign * ev.weightGrams);
+  };
+  before.forEach(ev => count(ev, 1));
+  after.forEach(ev => count(ev, -1));
+  if (![...returned.values()].some(Boolean)) return products;
+  return products.map(p => returned.get(p.id) ? { ...p, remainingGrams: Math.max(0, p.remainingGrams + returned.get(p.id)!) } : p);
+}
+
+// What the logged consumptions cost at each product's purchase price; undefined if none is priced.
+export function sessionCost(s: Session, products: Product[]): number | undefined {
+  const byId = new Map(products.map(p => [p.id, p]));
+  let total: number | undefined;
+  for (const ev of s.consumptions) {
+    const product = ev.productId ? byId.get(ev.productId) : undefined;
+    const ppg = product && pricePerGram(product);
+    if (ppg === undefined) continue;
+    total = (total ?? 0) + ev.weightGrams * ppg;
+  }
+  return total;
+}
+
+export type MonthlySpend = {
+  month: string; // YYYY-MM
+  purchased: number; // money spent on products bought that month
+  consumed: number; // value of what was consumed that month
+};
+
+export function monthlySpend(sessions: Session[], products: Product[]): MonthlySpend[] {
+  const months = new Map<string, MonthlySpend>();
+  const row = (t: number) => {
+    const month = dayjs(t).format('YYYY-MM');
+    let r = months.get(month);
+    if (!r) months.set(month, r = { month, purchased: 0, consumed: 0 });
+    return r;
+  };
+  for (const p of products) if (p.price !== undefined) row(p.purchaseDate).purchased += p.price;
+  const byId = new Map(products.map(p => [p.id, p]));
+  for (const s of sessions) {
+    for (const ev of s.consumptions) {
+      const product = ev.productId ? byId.get(ev.productId) : undefined;
+      const ppg = product && pricePerGram(product);
+      if (ppg !== undefined) row(ev.timestamp).consumed += ev.weightGrams * ppg;
+    }
+  }
+  return [...months.values()].sort((a, b) => a.month.localeCompare(b.month));
+}
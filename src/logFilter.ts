@@ -0,0 +1,114 @@
+import dayjs from 'dayjs';
+import type { Product, Session } from './types';
+import { getTimeOfDay } from './utils';
+import { computeSessionDose, defaultDoseModel, type DoseModel } from './doseModel';
+import { sessionCost } from './inventory';
+
+type TimeOfDay = NonNullable<Session['timeOfDay']>;
+
+// Empty fields match everything. Dates are local YYYY-MM-DD, both ends inclusive.
+export type LogFilter = {
+  from?: string;
+  to?: string;
+  method?: string;
+  productId?: string;
+  place?: string;
+  effect?: string;
+  tag?: string;
+  people?: 'solo' | 'shared';
+  timeOfDay?: TimeOfDay;
+  search: string; // words that must all appear in the session's or its consumptions' notes
+};
+
+export const EMPTY_FILTER: LogFilter = { search: '' };
+
+export function isFilterActive(filter: LogFilter): boolean {
+  return Object.entries(filter).some(([k, v]) => k === 'search' ? !!String(v).trim() : v !== undefined && v !== '');
+}
+
+// Lower-case and strip accents, so "cafe" finds "Café".
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function searchText(s: Session): string {
+  return fold([s.notes, ...s.consumptions.map(ev => ev.notes)].filter(Boolean).join('\n'));
+}
+
+export function filterSessions(sessions: Session[], filter: LogFilter): Session[] {
+  if (!isFilterActive(filter)) return sessions;
+  const from = filter.from ? dayjs(filter.from).startOf('day').valueOf() : -Infinity;
+  const to = filter.to ? dayjs(filter.to).endOf('day').valueOf() : Infinity;
+  const words = fold(filter.search).split(/\s+/).filter(Boolean);
+  const place = filter.place ? fold(filter.place) : undefined;
+  return sessions.filter(s => {
+    if (s.startTime < from || s.startTime > to) return false;
+    if (filter.method && !s.consumptions.some(ev => ev.method === filter.method)) return false;
+    if (filter.productId && s.baseSubstance?.productId !== filter.productId && !s.consumptions.some(ev => ev.productId === filter.productId)) return false;
+    if (place !== undefined && fold(s.context.place ?? '') !== place) return false;
+    if (filter.effect && !s.effects.includes(filter.effect)) return false;
+    if (filter.tag && !s.tags?.includes(filter.tag)) return false;
+    if (filter.people) {
+      const shared = (s.social.numPeopleSharing ?? 1) > 1;
+      if (shared !== (filter.people === 'shared')) return false;
+    }
+    if (filter.timeOfDay && (s.timeOfDay ?? getTimeOfDay(new Date(s.startTime))) !== filter.timeOfDay) return false;
+    if (words.length) {
+      const text = searchText(s);
+      if (!words.every(w => text.includes(w))) return false;
+    }
+    return true;
+  });
+}
+
+export type FilterOptions = {
+  methods: string[];
+  places: string[];
+  effects: string[];
+  tags: string[];
+  productIds: string[];
+};
+
+// The values that actually occur in the log, for the filter dropdowns.
+export function filterOptions(sessions: Session[]): FilterOptions {
+  const methods = new Set<string>();
+  const places = new Set<string>();
+  const effects = new Set<string>();
+  const tags = new Set<string>();
+  const productIds = new Set<string>();
+  for (const s of sessions) {
+    if (s.context.place?.trim()) places.add(s.context.place.trim());
+    for (const e of s.effects) effects.add(e);
+    for (const t of s.tags ?? []) tags.add(t);
+    if (s.baseSubstance?.productId) productIds.add(s.baseSubstance.productId);
+    for (const ev of s.consumptions) {
+      methods.add(ev.method);
+      if (ev.productId) productIds.add(ev.productId);
+    }
+  }
+  const sort = (set: Set<string>) => [...set].sort((a, b) => a.localeCompare(b));
+  return { methods: sort(methods), places: sort(places), effects: sort(effects), tags: sort(tags), productIds: [...productIds] };
+}
+
+export type SortKey = 'start' | 'duration' | 'timeOfDay' | 'dose' | 'people' | 'cost';
+export type SortDir = 'asc' | 'desc';
+
+const TIME_OF_DAY_ORDER: TimeOfDay[] = ['Morning', 'Afternoon', 'Evening', 'Night'];
+
+export function sortSessions(sessions: Session[], key: SortKey, dir: SortDir, products: Product[], now: number, doseModel: DoseModel = defaultDoseModel): Session[] {
+  const value = (s: Session): number => {
+    switch (key) {
+      case 'duration': return (s.endTime ?? now) - s.startTime;
+      case 'timeOfDay': return TIME_OF_DAY_ORDER.indexOf(s.timeOfDay ?? getTimeOfDay(new Date(s.startTime)));
+      case 'dose': return computeSessionDose(s, doseModel);
+      case 'people': return s.social.numPeopleSharing ?? 1;
+      case 'cost': return sessionCost(s, products) ?? -1;
+      default: return s.startTime;
+    }
+  };
+  // Compute each key once rather than inside the comparator.
+  const keyed = sessions.map(s => ({ s, v: value(s) }));
+  const sign = dir === 'asc' ? 1 : -1;
+  keyed.sort((a, b) => (a.v - b.v) * sign || (a.s.startTime - b.s.startTime) * sign);
+  return keyed.map(k => k.s);
+}
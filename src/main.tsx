@@ -1,8 +1,14 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { App } from './ui/App';
+import { LockGate } from './ui/LockGate';
+import { ProfileGate } from './ui/ProfileGate';
+import { registerServiceWorker } from './pwa';
 import './styles.css';
 
 const container = document.getElementById('root');
 if (!container) throw new Error('Root container missing');
-createRoot(container).render(<App />);
+registerServiceWorker();
+createRoot(container).render(
+  <LockGate>{lock => <ProfileGate>{profiles => <App lock={lock} profiles={profiles} />}</ProfileGate>}</LockGate>
+);
@@ -0,0 +1,148 @@
+import type { GeoLocation, Session } from './types';
+
+const DAY_MS = 24 * 3600 * 1000;
+const KM_PER_DEGREE = 111.32;
+
+export type GeoMode = 'off' | 'exact' | 'coarse' | 'place';
+
+export const GEO_MODE_LABELS: Record<GeoMode, string> = {
+  off: 'Off (never read location)',
+  exact: 'Exact coordinates',
+  coarse: 'Rounded to a coarse grid',
+  place: 'Named place only (no coordinates)'
+};
+
+export type NamedPlace = GeoLocation & { name: string };
+
+export type Redaction = {
+  geo: boolean;
+  notes: boolean;
+  freeText: boolean; // context and user-state text fields
+};
+
+export type PrivacySettings = {
+  geo: GeoMode;
+  gridKm: number;
+  places: NamedPlace[];
+  placeRadiusKm: number;
+  retention: { enabled: boolean; days: number; action: 'delete' | 'anonymize' };
+  exportRedaction: Redaction;
+};
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  geo: 'off',
+  gridKm: 5,
+  places: [],
+  placeRadiusKm: 0.5,
+  retention: { enabled: false, days: 365, action: 'anonymize' },
+  exportRedaction: { geo: false, notes: false, freeText: false }
+};
+
+export const FULL_REDACTION: Redaction = { geo: true, notes: true, freeText: true };
+
+// Snaps to the centre of a grid cell roughly `gridKm` on each side.
+export function coarsenGeo(geo: GeoLocation, gridKm: number): GeoLocation {
+  const latStep = gridKm / KM_PER_DEGREE;
+  const lat = (Math.floor(geo.lat / latStep) + 0.5) * latStep;
+  const lonStep = latStep / Math.max(0.01, Math.cos((lat * Math.PI) / 180));
+  const lon = (Math.floor(geo.lon / lonStep) + 0.5) * lonStep;
+  return { lat: Number(lat.toFixed(5)), lon: Number(lon.toFixed(5)) };
+}
+
+export function distanceKm(a: GeoLocation, b: GeoLocation): number {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLon = (b.lon - a.lon) * rad;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+export function nearestPlace(geo: GeoLocation, places: NamedPlace[], radiusKm: number): NamedPlace | undefined {
+  let best: NamedPlace | undefined;
+  let bestKm = radiusKm;
+  for (const p of places) {
+    const km = distanceKm(geo, p);
+    if (km <= bestKm) {
+      best = p;
+      bestKm = km;
+    }
+  }
+  return best;
+}
+
+// What a position fix becomes on the session under the current settings.
+export function applyGeo(s: Session, geo: GeoLocation, settings: PrivacySettings): Session {
+  switch (settings.geo) {
+    case 'exact': return { ...s, geo };
+    case 'coarse': return { ...s, geo: coarsenGeo(geo, settings.gridKm) };
+    case 'place': {
+      const place = nearestPlace(geo, settings.places, settings.placeRadiusKm);
+      return place && !s.context.place ? { ...s, context: { ...s.context, place: place.name } } : s;
+    }
+    default: return s;
+  }
+}
+
+function stripFields<T extends object>(obj: T, keys: (keyof T)[]): T {
+  if (!keys.some(k => obj[k] !== undefined)) return obj;
+  const copy = { ...obj };
+  for (const k of keys) delete copy[k];
+  return copy;
+}
+
+// Returns `s` itself when there is nothing to strip, so unchanged sessions are not rewritten.
+export function redactSession(s: Session, redaction: Redaction): Session {
+  let next = s;
+  if (redaction.geo && next.geo) next = stripFields(next, ['geo']);
+  if (redaction.notes) {
+    next = stripFields(next, ['notes']);
+    if (next.consumptions.some(ev => ev.notes !== undefined)) {
+      next = { ...next, consumptions: next.consumptions.map(ev => stripFields(ev, ['notes'])) };
+    }
+  }
+  if (redaction.freeText) {
+    const context = stripFields(next.context, ['place', 'weather', 'noise', 'light', 'music', 'activity']);
+    const user = stripFields(next.user, ['lastMeal', 'mood', 'intention']);
+    if (context !== next.context || user !== next.user) next = { ...next, context, user };
+    next = stripFields(next, ['tags']);
+  }
+  return next;
+}
+
+export function redactSessions(sessions: Session[], redaction: Redaction): Session[] {
+  return sessions.map(s => redactSession(s, redaction));
+}
+
+// Data from before this time falls under the retention rule.
+export function retentionCutoff(retention: PrivacySettings['retention'], now: number): number {
+  return now - retention.days * DAY_MS;
+}
+
+function expiredBefore(retention: PrivacySettings['retention'], now: number): (s: Session) => boolean {
+  const cutoff = retentionCutoff(retention, now);
+  return s => !s.active && (s.endTime ?? s.startTime) < cutoff;
+}
+
+// Deletes or anonymizes ended sessions older than the retention window.
+// Returns `sessions` itself when nothing changed.
+export function applyRetention(sessions: Session[], retention: PrivacySettings['retention'], now: number): Session[] {
+  if (!retention.enabled || retention.days <= 0) return sessions;
+  const expired = expiredBefore(retention, now);
+  let changed = false;
+  const next: Session[] = [];
+  for (const s of sessions) {
+    if (!expired(s)) next.push(s);
+    else if (retention.action === 'anonymize') {
+      const anon = redactSession(s, FULL_REDACTION);
+      if (anon !== s) changed = true;
+      next.push(anon);
+    } else changed = true;
+  }
+  return changed ? next : sessions;
+}
+
+// How many sessions the rule would delete or anonymize right now, whether or not it is enabled.
+export function retentionImpact(sessions: Session[], retention: PrivacySettings['retention'], now: number): number {
+  const expired = expiredBefore(retention, now);
+  return sessions.filter(s => expired(s) && (retention.action === 'delete' || redactSession(s, FULL_REDACTION) !== s)).length;
+}
@@ -0,0 +1,74 @@
+import type { Session } from './types';
+
+// A person sharing the device. Sessions, tolerance and personal settings are kept per profile;
+// the inventory, vocabulary, privacy settings and passcode are shared by the household.
+export type Profile = {
+  id: string;
+  name: string;
+};
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_PROFILES: Profile[] = [{ id: DEFAULT_PROFILE_ID, name: 'Me' }];
+
+// Settings stored per profile, under `profileKey(profileId, key)`.
+export const PROFILE_SETTING_KEYS = ['goals', 'toleranceSettings', 'methodProfiles', 'autoClose', 'reminders', 'reminderState'];
+
+// The default profile keeps the original settings keys, so settings from before profiles carry over.
+export function profileKey(profileId: string, key: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+}
+
+export function ownerOf(s: Session): string {
+  return s.profileId ?? DEFAULT_PROFILE_ID;
+}
+
+export function participantsOf(s: Session): string[] {
+  const owner = ownerOf(s);
+  const others = (s.social.participants ?? []).filter(p => p !== owner);
+  return [owner, ...others];
+}
+
+// A profile sees the sessions it logged and the group sessions it took part in.
+export function isVisibleTo(s: Session, profileId: string): boolean {
+  return ownerOf(s) === profileId || !!s.social.participants?.includes(profileId);
+}
+
+export function sessionsForProfile(sessions: Session[], profileId: string): Session[] {
+  return sessions.filter(s => isVisibleTo(s, profileId));
+}
+
+export function validateShares(s: Session): string[] {
+  const errors: string[] = [];
+  const people = Math.max(1, s.social.numPeopleSharing ?? 1);
+  const participants = participantsOf(s);
+  if (participants.length > people) errors.push(`People sharing must be at least ${participants.length}, the number of profiles taking part`);
+  s.consumptions.forEach((ev, i) => {
+    if (!ev.shares) return;
+    if (Object.keys(ev.shares).some(p => !participants.includes(p))) errors.push(`Consumption #${i + 1} has a share for someone not taking part`);
+    const total = Object.values(ev.shares).reduce((a, b) => a + b, 0);
+    if (total > 1 + 1e-9) errors.push(`Consumption #${i + 1} shares add up to ${Math.round(total * 100)}%`);
+    else if (total > 1 - 1e-9 && participants.some(p => ev.shares![p] === undefined)) errors.push(`Consumption #${i + 1} leaves nothing for the participants without a share`);
+  });
+  return errors;
+}
+
+// Removes a profile: its own sessions are deleted and it is dropped from other people's group
+// sessions, along with its check-ins there.
+export function removeProfileSessions(sessions: Session[], profileId: string): Session[] {
+  return sessions
+    .filter(s => ownerOf(s) !== profileId)
+    .map(s => {
+      if (!s.social.participants?.includes(profileId)) return s;
+      return {
+        ...s,
+        social: { ...s.social, participants: s.social.participants.filter(p => p !== profileId) },
+        checkIns: s.checkIns?.filter(c => c.profileId !== profileId),
+        consumptions: s.consumptions.map(ev => {
+          if (ev.shares?.[profileId] === undefined) return ev;
+          const { [profileId]: _removed, ...shares } = ev.shares;
+          return { ...ev, shares: Object.keys(shares).length ? shares : undefined };
+        })
+      };
+    });
+}
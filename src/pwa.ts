@@ -0,0 +1,64 @@
+export type QuickAction = 'start-session' | 'add-consumption';
+
+const QUICK_ACTIONS: QuickAction[] = ['start-session', 'add-consumption'];
+
+export function registerServiceWorker(): void {
+  // The worker only exists in production builds; in dev it would cache stale modules.
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(() => {});
+  });
+}
+
+// Reads the home-screen shortcut the app was opened with (`?action=…`) and removes it
+// from the URL, so a reload does not repeat it.
+export function takeQuickAction(): QuickAction | undefined {
+  const url = new URL(window.location.href);
+  const action = url.searchParams.get('action') as QuickAction | null;
+  if (!action) return undefined;
+  url.searchParams.delete('action');
+  window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+  return QUICK_ACTIONS.includes(action) ? action : undefined;
+}
+
+export type ReminderAction = 'snooze' | 'dismiss';
+
+// Shows a notification through the service worker when there is one, so it works where the
+// page's Notification constructor is unavailable (it throws on Android Chrome). Reminders also
+// carry Snooze and Dismiss buttons.
+export async function showNotification(title: string, body: string, tag: string, reminder?: { kind: string; key: string }): Promise<void> {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    const actions = reminder ? [{ action: 'snooze', title: 'Snooze' }, { action: 'dismiss', title: 'Dismiss' }] : undefined;
+    await registration.showNotification(title, { body, tag, data: reminder, actions } as NotificationOptions);
+    return;
+  }
+  const n = new Notification(title, { body, tag });
+  n.onclick = () => { window.focus(); n.close(); };
+}
+
+// A Snooze or Dismiss the service worker opened the app with because no window was open.
+// Removed from the URL like a quick action, so a reload does not repeat it.
+function takeReminderAction(): { action: ReminderAction; reminder: { kind: string; key: string } } | undefined {
+  const url = new URL(window.location.href);
+  const action = url.searchParams.get('reminder-action');
+  const kind = url.searchParams.get('kind');
+  const key = url.searchParams.get('key');
+  if (!action) return undefined;
+  for (const name of ['reminder-action', 'kind', 'key']) url.searchParams.delete(name);
+  window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+  return (action === 'snooze' || action === 'dismiss') && kind && key ? { action, reminder: { kind, key } } : undefined;
+}
+
+// Snooze and Dismiss pressed on a reminder notification, relayed by the service worker.
+export function subscribeToReminderActions(listener: (action: ReminderAction, reminder: { kind: string; key: string }) => void): () => void {
+  const opened = takeReminderAction();
+  if (opened) listener(opened.action, opened.reminder);
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handle = (e: MessageEvent) => {
+    if (e.data?.type === 'reminder-action' && e.data.reminder) listener(e.data.action, e.data.reminder);
+  };
+  navigator.serviceWorker.addEventListener('message', handle);
+  return () => navigator.serviceWorker.removeEventListener('message', handle);
+}
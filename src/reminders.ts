@@ -0,0 +1,179 @@
+import dayjs from 'dayjs';
+import type { Session } from './types';
+import type { Goals } from './goals';
+import { formatDuration } from './utils';
+
+const HOUR_MS = 3600 * 1000;
+
+export type ReminderKind = 'longSession' | 'breakEnding' | 'sinceLastDose' | 'journal';
+
+// Times of day are 'HH:mm', as entered in <input type="time">.
+export type ReminderSettings = {
+  longSession: { enabled: boolean; hours: number };
+  breakEnding: { enabled: boolean; hoursBefore: number };
+  sinceLastDose: { enabled: boolean; hours: number };
+  journal: { enabled: boolean; time: string };
+  quietHours: { enabled: boolean; start: string; end: string };
+  snoozeMinutes: number;
+};
+
+export const DEFAULT_REMINDERS: ReminderSettings = {
+  longSession: { enabled: true, hours: 3 },
+  breakEnding: { enabled: true, hoursBefore: 24 },
+  sinceLastDose: { enabled: false, hours: 24 },
+  journal: { enabled: false, time: '21:00' },
+  quietHours: { enabled: true, start: '22:00', end: '08:00' },
+  snoozeMinutes: 30
+};
+
+export const REMINDER_LABELS: Record<ReminderKind, string> = {
+  longSession: 'Long session',
+  breakEnding: 'Tolerance break ending',
+  sinceLastDose: 'Time since last dose',
+  journal: 'Daily journal prompt'
+};
+
+// What happened to the latest occurrence of each kind. `key` identifies the occurrence
+// (a session, break, consumption or day), so a new one starts with a clean slate.
+export type ReminderState = Partial<Record<ReminderKind, {
+  key: string;
+  dismissed?: boolean;
+  snoozedUntil?: number;
+  notifiedAt?: number;
+}>>;
+
+type OccurrenceState = NonNullable<ReminderState[ReminderKind]>;
+
+export type Reminder = {
+  kind: ReminderKind;
+  key: string;
+  dueAt: number; // after snoozes and quiet hours
+  sessionId?: string;
+};
+
+export type ReminderContext = {
+  sessions: Session[];
+  active?: Session; // the profile's own active session, not a group session it joined
+  goals: Goals;
+  toleranceAt: (at: number) => number;
+  unit: string;
+};
+
+function minutesOfDay(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+function atTimeOfDay(day: number, time: string): number {
+  return dayjs(day).startOf('day').add(minutesOfDay(time), 'minute').valueOf();
+}
+
+// Moves a time inside the quiet hours to when they end. Windows may run past midnight.
+export function afterQuietHours(at: number, quiet: ReminderSettings['quietHours']): number {
+  const start = minutesOfDay(quiet.start);
+  const end = minutesOfDay(quiet.end);
+  if (!quiet.enabled || start === end) return at;
+  const minute = dayjs(at).hour() * 60 + dayjs(at).minute();
+  const overnight = start > end;
+  const inside = overnight ? minute >= start || minute < end : minute >= start && minute < end;
+  if (!inside) return at;
+  const endsTomorrow = overnight && minute >= start;
+  return atTimeOfDay(dayjs(at).add(endsTomorrow ? 1 : 0, 'day').valueOf(), quiet.end);
+}
+
+type Occurrence = Omit<Reminder, 'dueAt'> & { at: number };
+
+// The next occurrence of each enabled reminder, before snoozes and quiet hours. The journal
+// prompt has today's and tomorrow's, so dismissing today's moves on to tomorrow.
+function occurrences(ctx: ReminderContext, settings: ReminderSettings, now: number): Occurrence[] {
+  const result: Occurrence[] = [];
+  const { active } = ctx;
+  if (settings.longSession.enabled && active) {
+    result.push({ kind: 'longSession', key: active.id, at: active.startTime + settings.longSession.hours * HOUR_MS, sessionId: active.id });
+  }
+  if (settings.breakEnding.enabled) {
+    const brk = ctx.goals.breaks.filter(b => b.end > now).sort((a, b) => a.end - b.end)[0];
+    if (brk) result.push({ kind: 'breakEnding', key: brk.id, at: Math.max(brk.start, brk.end - settings.breakEnding.hoursBefore * HOUR_MS) });
+  }
+  if (settings.sinceLastDose.enabled && !active) {
+    const last = ctx.sessions.flatMap(s => s.consumptions).sort((a, b) => b.timestamp - a.timestamp)[0];
+    if (last) result.push({ kind: 'sinceLastDose', key: last.id, at: last.timestamp + settings.sinceLastDose.hours * HOUR_MS });
+  }
+  if (settings.journal.enabled) {
+    for (const day of [dayjs(now), dayjs(now).add(1, 'day')]) {
+      result.push({ kind: 'journal', key: day.format('YYYY-MM-DD'), at: atTimeOfDay(day.valueOf(), settings.journal.time) });
+    }
+  }
+  return result;
+}
+
+// Every reminder that is due or still to come, soonest first. Dismissed occurrences are left
+// out, snoozed ones are due when the snooze runs out, and none fall inside the quiet hours.
+export function scheduledReminders(ctx: ReminderContext, settings: ReminderSettings, state: ReminderState, now: number): Reminder[] {
+  const result: Reminder[] = [];
+  for (const { at, ...occ } of occurrences(ctx, settings, now)) {
+    const seen = state[occ.kind]?.key === occ.key ? state[occ.kind] : undefined;
+    if (seen?.dismissed) continue;
+    // Only the first journal prompt that has not been dismissed is kept.
+    if (occ.kind === 'journal' && result.some(r => r.kind === 'journal')) continue;
+    result.push({ ...occ, dueAt: afterQuietHours(Math.max(at, seen?.snoozedUntil ?? 0), settings.quietHours) });
+  }
+  return result.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+export function dueReminders(ctx: ReminderContext, settings: ReminderSettings, state: ReminderState, now: number): Reminder[] {
+  return scheduledReminders(ctx, settings, state, now).filter(r => r.dueAt <= now);
+}
+
+export function nextReminderAt(ctx: ReminderContext, settings: ReminderSettings, state: ReminderState, now: number): number | undefined {
+  return scheduledReminders(ctx, settings, state, now).find(r => r.dueAt > now)?.dueAt;
+}
+
+// Due reminders that have not been sent as a notification since they fell due.
+export function unnotified(reminders: Reminder[], state: ReminderState): Reminder[] {
+  return reminders.filter(r => {
+    const seen = state[r.kind];
+    return seen?.key !== r.key || seen.notifiedAt === undefined || seen.notifiedAt < r.dueAt;
+  });
+}
+
+function stateOf(state: ReminderState, r: Pick<Reminder, 'kind' | 'key'>): OccurrenceState {
+  const seen = state[r.kind];
+  return seen?.key === r.key ? seen : { key: r.key };
+}
+
+export function markNotified(state: ReminderState, reminders: Reminder[], now: number): ReminderState {
+  const next = { ...state };
+  for (const r of reminders) next[r.kind] = { ...stateOf(state, r), notifiedAt: now };
+  return next;
+}
+
+export function snoozeReminder(state: ReminderState, r: Pick<Reminder, 'kind' | 'key'>, minutes: number, now: number): ReminderState {
+  return { ...state, [r.kind]: { ...stateOf(state, r), snoozedUntil: now + minutes * 60000 } };
+}
+
+export function dismissReminder(state: ReminderState, r: Pick<Reminder, 'kind' | 'key'>): ReminderState {
+  return { ...state, [r.kind]: { ...stateOf(state, r), dismissed: true } };
+}
+
+export function reminderText(r: Reminder, ctx: ReminderContext, now: number): { title: string; body: string } {
+  switch (r.kind) {
+    case 'longSession': {
+      const s = ctx.sessions.find(x => x.id === r.sessionId);
+      return { title: 'Still in your session?', body: `You've been in a session for ${formatDuration(now - (s?.startTime ?? now))}. End it?` };
+    }
+    case 'breakEnding': {
+      const brk = ctx.goals.breaks.find(b => b.id === r.key);
+      const end = brk?.end ?? now;
+      const when = dayjs(end).isSame(dayjs(now).add(1, 'day'), 'day') ? 'tomorrow' : dayjs(end).isSame(now, 'day') ? 'today' : `on ${new Date(end).toLocaleDateString()}`;
+      return { title: 'Tolerance break ending', body: `Your planned tolerance break ends ${when}${brk?.note ? ` (${brk.note})` : ''}.` };
+    }
+    case 'sinceLastDose': {
+      const last = ctx.sessions.flatMap(s => s.consumptions).find(ev => ev.id === r.key);
+      const since = formatDuration(now - (last?.timestamp ?? now));
+      return { title: 'Time since last dose', body: `It's been ${since} since your last dose. Your tolerance is now ${ctx.toleranceAt(now).toFixed(1)} ${ctx.unit}.` };
+    }
+    case 'journal':
+      return { title: 'Journal', body: 'How did today go? Take a minute to add notes to your sessions.' };
+  }
+}
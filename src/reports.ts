@@ -0,0 +1,188 @@
+import dayjs from 'dayjs';
+import type { Product, Session } from './types';
+import { byTimeAsc, formatDuration, intervalSincePrevious } from './utils';
+import { computeSessionDose, defaultDoseModel, type DoseModel } from './doseModel';
+import { sessionCost } from './inventory';
+
+// Sessions are attributed to the day, week or month they started in.
+
+export type DayTotals = {
+  date: string; // YYYY-MM-DD
+  start: number;
+  doseMg: number;
+  grams: number;
+  sessions: number;
+};
+
+function sessionGrams(s: Session, doseModel: DoseModel): number {
+  return s.consumptions.reduce((acc, ev) => acc + ev.weightGrams * doseModel.shareOf(ev, s.social.numPeopleSharing), 0);
+}
+
+// One entry per calendar day from `from` through `to`, including empty days.
+export function dailyTotals(sessions: Session[], from: number, to: number, doseModel: DoseModel = defaultDoseModel): DayTotals[] {
+  const days = new Map<string, DayTotals>();
+  for (let d = dayjs(from).startOf('day'); !d.isAfter(to); d = d.add(1, 'day')) {
+    const date = d.format('YYYY-MM-DD');
+    days.set(date, { date, start: d.valueOf(), doseMg: 0, grams: 0, sessions: 0 });
+  }
+  for (const s of sessions) {
+    const day = days.get(dayjs(s.startTime).format('YYYY-MM-DD'));
+    if (!day) continue;
+    day.sessions++;
+    day.doseMg += computeSessionDose(s, doseModel) * 1000;
+    day.grams += sessionGrams(s, doseModel);
+  }
+  return [...days.values()];
+}
+
+export type PeriodKind = 'week' | 'month';
+
+export type PeriodTotals = {
+  start: number;
+  end: number;
+  sessions: number;
+  doseMg: number;
+  grams: number;
+  avgGapMs?: number;
+  spend?: number; // undefined when no consumption had a known price
+};
+
+export type PeriodReport = PeriodTotals & {
+  kind: PeriodKind;
+  label: string;
+  topEffects: { effect: string; count: number }[];
+  days: DayTotals[];
+  sessionList: Session[];
+  previous: PeriodTotals;
+};
+
+export function periodStart(kind: PeriodKind, at: number): number {
+  return dayjs(at).startOf(kind).valueOf();
+}
+
+export function shiftPeriod(kind: PeriodKind, start: number, by: number): number {
+  return dayjs(start).add(by, kind).startOf(kind).valueOf();
+}
+
+export function periodLabel(kind: PeriodKind, start: number): string {
+  return kind === 'month'
+    ? dayjs(start).format('MMMM YYYY')
+    : `Week of ${dayjs(start).format('MMM D, YYYY')}`;
+}
+
+function periodTotals(sorted: Session[], products: Product[], start: number, end: number, doseModel: DoseModel): PeriodTotals {
+  const totals: PeriodTotals = { start, end, sessions: 0, doseMg: 0, grams: 0 };
+  const gaps: number[] = [];
+  sorted.forEach((s, i) => {
+    if (s.startTime < start || s.startTime >= end) return;
+    totals.sessions++;
+    totals.doseMg += computeSessionDose(s, doseModel) * 1000;
+    totals.grams += sessionGrams(s, doseModel);
+    const cost = sessionCost(s, products);
+    if (cost !== undefined) totals.spend = (totals.spend ?? 0) + cost;
+    const gap = intervalSincePrevious(sorted, i);
+    if (gap !== undefined) gaps.push(gap);
+  });
+  if (gaps.length) totals.avgGapMs = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+  return totals;
+}
+
+export function periodReport(sessions: Session[], products: Product[], kind: PeriodKind, start: number, doseModel: DoseModel = defaultDoseModel): PeriodReport {
+  const sorted = [...sessions].sort(byTimeAsc);
+  const end = shiftPeriod(kind, start, 1);
+  const totals = periodTotals(sorted, products, start, end, doseModel);
+  const sessionList = sorted.filter(s => s.startTime >= start && s.startTime < end);
+  const counts = new Map<string, number>();
+  for (const s of sessionList) for (const e of s.effects) counts.set(e, (counts.get(e) ?? 0) + 1);
+  const topEffects = [...counts].map(([effect, count]) => ({ effect, count })).sort((a, b) => b.count - a.count).slice(0, 5);
+  return {
+    ...totals,
+    kind,
+    label: periodLabel(kind, start),
+    topEffects,
+    days: dailyTotals(sessionList, start, end - 1, doseModel),
+    sessionList,
+    previous: periodTotals(sorted, products, shiftPeriod(kind, start, -1), start, doseModel)
+  };
+}
+
+// Relative change from the previous period, or undefined when there is nothing to compare against.
+export function percentChange(current: number | undefined, previous: number | undefined): number | undefined {
+  if (current === undefined || previous === undefined || previous === 0) return undefined;
+  return ((current - previous) / previous) * 100;
+}
+
+export function formatChange(current: number | undefined, previous: number | undefined): string {
+  const pct = percentChange(current, previous);
+  if (pct === undefined) return current && !previous ? 'new' : '—';
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(0)}%`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+// A self-contained, printable page (print it to PDF from the browser) with no location, notes or free text.
+export function reportHtml(report: PeriodReport, doseModel: DoseModel = defaultDoseModel): string {
+  const prev = report.previous;
+  const row = (label: string, value: string, previous: string, change: string) =>
+    `<tr><th>${label}</th><td>${value}</td><td>${previous}</td><td>${change}</td></tr>`;
+  const money = (v?: number) => v === undefined ? '—' : v.toFixed(2);
+  const gap = (v?: number) => v === undefined ? '—' : formatDuration(v);
+  const sessionsRows = report.sessionList.map(s => `<tr>
+      <td>${escapeHtml(new Date(s.startTime).toLocaleString())}</td>
+      <td>${s.endTime ? formatDuration(s.endTime - s.startTime) : 'active'}</td>
+      <td>${(computeSessionDose(s, doseModel) * 1000).toFixed(1)}</td>
+      <td>${escapeHtml([...new Set(s.consumptions.map(ev => ev.method))].join(', '))}</td>
+      <td>${escapeHtml(s.effects.join(', '))}</td>
+    </tr>`).join('');
+  const dayRows = report.days.filter(d => d.sessions).map(d =>
+    `<tr><td>${d.date}</td><td>${d.sessions}</td><td>${d.grams.toFixed(2)}</td><td>${d.doseMg.toFixed(1)}</td></tr>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.label)} – Cannabis use report</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .meta { color: #555; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+  th { font-weight: 600; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Cannabis use report: ${escapeHtml(report.label)}</h1>
+<div class="meta">${dayjs(report.start).format('YYYY-MM-DD')} to ${dayjs(report.end - 1).format('YYYY-MM-DD')} · generated ${escapeHtml(new Date().toLocaleString())}. Dose is absorbed THC per person, estimated from weight, potency and method.</div>
+
+<h2>Summary</h2>
+<table>
+  <tr><th></th><th>This period</th><th>Previous period</th><th>Change</th></tr>
+  ${row('Sessions', String(report.sessions), String(prev.sessions), formatChange(report.sessions, prev.sessions))}
+  ${row('Total dose (mg THC)', report.doseMg.toFixed(1), prev.doseMg.toFixed(1), formatChange(report.doseMg, prev.doseMg))}
+  ${row('Total weight (g)', report.grams.toFixed(2), prev.grams.toFixed(2), formatChange(report.grams, prev.grams))}
+  ${row('Average gap between sessions', gap(report.avgGapMs), gap(prev.avgGapMs), formatChange(report.avgGapMs, prev.avgGapMs))}
+  ${row('Spend', money(report.spend), money(prev.spend), formatChange(report.spend, prev.spend))}
+</table>
+
+<h2>Most reported effects</h2>
+<p>${report.topEffects.length ? report.topEffects.map(e => `${escapeHtml(e.effect)} (${e.count})`).join(', ') : 'None recorded'}</p>
+
+<h2>Daily totals</h2>
+<table>
+  <tr><th>Date</th><th>Sessions</th><th>Weight (g)</th><th>Dose (mg)</th></tr>
+  ${dayRows || '<tr><td colspan="4">No use recorded</td></tr>'}
+</table>
+
+<h2>Sessions</h2>
+<table>
+  <tr><th>Start</th><th>Duration</th><th>Dose (mg)</th><th>Methods</th><th>Effects</th></tr>
+  ${sessionsRows || '<tr><td colspan="5">No sessions</td></tr>'}
+</table>
+</body>
+</html>`;
+}
@@ -0,0 +1,56 @@
+import type { Session } from './types';
+import { ownerOf } from './profiles';
+
+const HOUR_MS = 3600 * 1000;
+
+export type AutoCloseSettings = {
+  enabled: boolean;
+  inactivityHours: number; // since the last consumption, check-in or resume
+};
+
+export const DEFAULT_AUTO_CLOSE: AutoCloseSettings = { enabled: true, inactivityHours: 4 };
+
+// The latest sign that the session was still going.
+export function lastActivityAt(s: Session): number {
+  let last = Math.max(s.startTime, s.resumedAt ?? 0);
+  for (const ev of s.consumptions) last = Math.max(last, ev.timestamp);
+  for (const c of s.checkIns ?? []) if (!c.skipped) last = Math.max(last, c.timestamp);
+  return last;
+}
+
+// When an active session counts as abandoned, or undefined if it never will.
+export function staleAt(s: Session, settings: AutoCloseSettings): number | undefined {
+  if (!s.active || !settings.enabled || settings.inactivityHours <= 0) return undefined;
+  return lastActivityAt(s) + settings.inactivityHours * HOUR_MS;
+}
+
+// Whether resuming `s` would pick up a session that has been idle longer than the window.
+export function isStale(s: Session, settings: AutoCloseSettings, now: number): boolean {
+  const hours = settings.inactivityHours > 0 ? settings.inactivityHours : DEFAULT_AUTO_CLOSE.inactivityHours;
+  return now - Math.max(lastActivityAt(s), s.endTime ?? 0) > hours * HOUR_MS;
+}
+
+// Ends stale active sessions at their last activity and flags them for the user to confirm.
+// With `owner`, only that profile's sessions are ended, as the settings are that profile's.
+// Returns `sessions` itself when nothing was closed.
+export function autoCloseStale(sessions: Session[], settings: AutoCloseSettings, now: number, owner?: string): Session[] {
+  let changed = false;
+  const next = sessions.map(s => {
+    if (owner !== undefined && ownerOf(s) !== owner) return s;
+    const at = staleAt(s, settings);
+    if (at === undefined || at > now) return s;
+    changed = true;
+    return { ...s, active: false, endTime: lastActivityAt(s), autoClosed: true };
+  });
+  return changed ? next : sessions;
+}
+
+export function confirmAutoClose(s: Session, endTime: number): Session {
+  const { autoClosed: _omit, ...rest } = s;
+  return { ...rest, endTime };
+}
+
+export function resumeSession(s: Session, now: number): Session {
+  const { autoClosed: _omit, endTime: _end, ...rest } = s;
+  return { ...rest, active: true, resumedAt: now };
+}
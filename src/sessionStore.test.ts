@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { sessionErrors, sessionReducer, SessionStoreError } from './sessionStore';
+import { DEFAULT_PRIVACY_SETTINGS } from './privacy';
+import { consumption, HOUR, MIN, session, T0 } from './testFixtures';
+import type { Session } from './types';
+
+const active = (overrides: Partial<Session> = {}) => session({ id: 'live', startTime: T0, endTime: undefined, active: true, ...overrides });
+const ended = session({ id: 'old', startTime: T0 - 5 * HOUR, endTime: T0 - 4 * HOUR });
+
+describe('sessionReducer', () => {
+  it('starts a session, keeping the log in time order', () => {
+    const earlier = session({ id: 'earlier', startTime: T0 - 10 * HOUR, endTime: T0 - 9 * HOUR });
+    const next = sessionReducer([ended], { type: 'start', session: active() });
+    expect(next.map(s => s.id)).toEqual(['old', 'live']);
+    expect(sessionReducer(next, { type: 'save', session: earlier }).map(s => s.id)).toEqual(['earlier', 'old', 'live']);
+  });
+
+  it('does not change the sessions it is given', () => {
+    const sessions = [active()];
+    const frozen = JSON.stringify(sessions);
+    sessionReducer(sessions, { type: 'addConsumption', sessionId: 'live', consumption: consumption({ timestamp: T0 + MIN }) });
+    sessionReducer(sessions, { type: 'end', sessionId: 'live', at: T0 + HOUR });
+    expect(JSON.stringify(sessions)).toBe(frozen);
+  });
+
+  it('refuses a second active session', () => {
+    const sessions = [active()];
+    expect(() => sessionReducer(sessions, { type: 'start', session: active({ id: 'second', startTime: T0 + HOUR }) })).toThrow(SessionStoreError);
+    expect(() => sessionReducer([active(), ended], { type: 'resume', sessionId: 'old', at: T0 + HOUR })).toThrow('Another session is already active');
+    expect(() => sessionReducer(sessions, { type: 'save', session: active({ id: 'edited', startTime: T0 - 2 * HOUR }) })).toThrow(SessionStoreError);
+  });
+
+  it('allows one active session per profile', () => {
+    const sessions = [active()];
+    const next = sessionReducer(sessions, { type: 'start', session: active({ id: 'theirs', profileId: 'p2' }) });
+    expect(next.filter(s => s.active)).toHaveLength(2);
+  });
+
+  it('adds consumptions only to an active session', () => {
+    const ev = consumption({ timestamp: T0 + MIN });
+    const next = sessionReducer([active()], { type: 'addConsumption', sessionId: 'live', consumption: ev });
+    expect(next[0].consumptions).toEqual([ev]);
+    expect(() => sessionReducer(next, { type: 'addConsumption', sessionId: 'live', consumption: ev })).toThrow('already logged');
+    expect(() => sessionReducer([ended], { type: 'addConsumption', sessionId: 'old', consumption: ev })).toThrow('active session');
+    expect(() => sessionReducer([active()], { type: 'addConsumption', sessionId: 'live', consumption: consumption({ timestamp: T0 - MIN }) })).toThrow('before the session starts');
+  });
+
+  it('updates only the session details', () => {
+    // A whole session can be passed as the details; everything else on it is ignored.
+    const details: Session = { ...active({ id: 'ignored', active: false, endTime: T0 }), context: { place: 'Home' }, effects: ['Relaxed'], tags: ['weekend'], notes: 'calm' };
+    const [updated] = sessionReducer([active()], { type: 'updateDetails', sessionId: 'live', details });
+    expect(updated).toMatchObject({ id: 'live', active: true, context: { place: 'Home' }, effects: ['Relaxed'], tags: ['weekend'], notes: 'calm' });
+  });
+
+  it('ends and resumes a session', () => {
+    const [done] = sessionReducer([active()], { type: 'end', sessionId: 'live', at: T0 + HOUR });
+    expect(done).toMatchObject({ active: false, endTime: T0 + HOUR });
+    expect(() => sessionReducer([done], { type: 'end', sessionId: 'live', at: T0 + 2 * HOUR })).toThrow('already ended');
+    const [again] = sessionReducer([done], { type: 'resume', sessionId: 'live', at: T0 + 2 * HOUR });
+    expect(again).toMatchObject({ active: true, resumedAt: T0 + 2 * HOUR });
+    expect(again.endTime).toBeUndefined();
+  });
+
+  it('refuses an end time before the start or the last consumption', () => {
+    const withDose = active({ consumptions: [consumption({ timestamp: T0 + 30 * MIN })] });
+    expect(() => sessionReducer([active()], { type: 'end', sessionId: 'live', at: T0 - MIN })).toThrow('ends before it starts');
+    expect(() => sessionReducer([withDose], { type: 'end', sessionId: 'live', at: T0 + 10 * MIN })).toThrow('after the session ends');
+  });
+
+  it('settles the end time of an auto-ended session', () => {
+    const autoEnded = session({ id: 'auto', autoClosed: true, endTime: T0 + HOUR });
+    const [settled] = sessionReducer([autoEnded], { type: 'confirmEnd', sessionId: 'auto', endTime: T0 + 2 * HOUR });
+    expect(settled.endTime).toBe(T0 + 2 * HOUR);
+    expect(settled.autoClosed).toBeUndefined();
+  });
+
+  it('deletes a session, and rejects unknown ids', () => {
+    expect(sessionReducer([ended, active()], { type: 'delete', sessionId: 'old' }).map(s => s.id)).toEqual(['live']);
+    expect(() => sessionReducer([ended], { type: 'delete', sessionId: 'missing' })).toThrow('not found');
+    expect(() => sessionReducer([ended], { type: 'end', sessionId: 'missing', at: T0 })).toThrow('not found');
+  });
+
+  it('lets unrelated changes through when older data breaks a rule', () => {
+    const legacy = [active({ id: 'a' }), active({ id: 'b', startTime: T0 + MIN })];
+    expect(() => sessionReducer([...legacy, ended], { type: 'delete', sessionId: 'old' })).not.toThrow();
+    expect(sessionReducer(legacy, { type: 'end', sessionId: 'a', at: T0 + HOUR })[0].active).toBe(false);
+  });
+
+  it('records a check-in, and rejects one for an unknown session', () => {
+    const checkIn = { id: 'k1', timestamp: T0 + 15 * MIN, intensities: { Relaxed: 6 } };
+    expect(sessionReducer([active()], { type: 'addCheckIn', sessionId: 'live', checkIn })[0].checkIns).toEqual([checkIn]);
+    expect(() => sessionReducer([active()], { type: 'addCheckIn', sessionId: 'missing', checkIn })).toThrow('not found');
+  });
+
+  it('only locates a session that is still going', () => {
+    const privacy = { ...DEFAULT_PRIVACY_SETTINGS, geo: 'exact' as const };
+    const geo = { lat: 52.5, lon: 13.4 };
+    expect(sessionReducer([active()], { type: 'locate', sessionId: 'live', geo, privacy })[0].geo).toEqual(geo);
+    const sessions = [ended];
+    expect(sessionReducer(sessions, { type: 'locate', sessionId: 'old', geo, privacy })).toBe(sessions);
+  });
+
+  it("imports a profile's log without touching other profiles' sessions", () => {
+    const theirs = active({ id: 'theirs', profileId: 'p2' });
+    const next = sessionReducer([ended, theirs], { type: 'import', profileId: 'default', sessions: [session({ id: 'new' })] });
+    expect(next.map(s => s.id).sort()).toEqual(['new', 'theirs']);
+  });
+
+  it('refuses an import that would leave a profile with two active sessions', () => {
+    const imported = active({ id: 'imported', profileId: 'p2', startTime: T0 + HOUR });
+    expect(() => sessionReducer([active({ profileId: 'p2' })], { type: 'import', profileId: 'default', sessions: [imported] })).toThrow('Another session is already active');
+  });
+});
+
+describe('sessionErrors', () => {
+  it('finds no problems in a well-formed session', () => {
+    expect(sessionErrors([ended], ended)).toEqual([]);
+  });
+
+  it('requires an end time exactly when the session is over', () => {
+    expect(sessionErrors([], session({ endTime: undefined }))).toContain('An ended session needs an end time');
+    expect(sessionErrors([], session({ active: true }))).toContain('An active session cannot have an end time');
+  });
+
+  it('reports duplicate ids', () => {
+    expect(sessionErrors([ended, ended], ended)).toContain('Another session has the same id');
+  });
+});
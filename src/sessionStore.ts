@@ -0,0 +1,139 @@
+import type { ConsumptionEvent, EffectCheckIn, GeoLocation, Session } from './types';
+import { byTimeAsc } from './utils';
+import { ownerOf, removeProfileSessions } from './profiles';
+import { confirmAutoClose, resumeSession } from './sessionLifecycle';
+import { addCheckIn } from './checkIns';
+import { applyGeo, applyRetention, type PrivacySettings } from './privacy';
+import { renameInSessions, type TermKind } from './vocabulary';
+
+// The parts of a session that can change while it is going.
+export type SessionDetails = Pick<Session, 'context' | 'social' | 'user' | 'supplements' | 'effects' | 'tags' | 'notes'>;
+
+const DETAIL_KEYS: (keyof SessionDetails)[] = ['context', 'social', 'user', 'supplements', 'effects', 'tags', 'notes'];
+
+export type SessionAction =
+  | { type: 'start'; session: Session }
+  | { type: 'addConsumption'; sessionId: string; consumption: ConsumptionEvent }
+  | { type: 'updateDetails'; sessionId: string; details: SessionDetails }
+  | { type: 'end'; sessionId: string; at: number }
+  | { type: 'resume'; sessionId: string; at: number }
+  | { type: 'confirmEnd'; sessionId: string; endTime: number }
+  | { type: 'save'; session: Session } // an edited session, or a new past one
+  | { type: 'delete'; sessionId: string }
+  | { type: 'addCheckIn'; sessionId: string; checkIn: EffectCheckIn }
+  | { type: 'locate'; sessionId: string; geo: GeoLocation; privacy: PrivacySettings } // ignored once the session is over
+  | { type: 'renameTerm'; kind: TermKind; from: string[]; to: string }
+  | { type: 'removeProfile'; profileId: string }
+  | { type: 'applyRetention'; retention: PrivacySettings['retention']; now: number }
+  | { type: 'import'; profileId: string; sessions: Session[] } // the profile's merged or replaced log
+  | { type: 'restore'; sessions: Session[] }; // a backup, taken back as it was
+
+export class SessionStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionStoreError';
+  }
+}
+
+function find(sessions: Session[], id: string): Session {
+  const s = sessions.find(x => x.id === id);
+  if (!s) throw new SessionStoreError('Session not found');
+  return s;
+}
+
+// Problems `s` would have as part of `sessions`. Only the changed session is checked, so
+// older data that breaks a rule does not block unrelated changes.
+export function sessionErrors(sessions: Session[], s: Session): string[] {
+  const errors: string[] = [];
+  if (sessions.filter(x => x.id === s.id).length > 1) errors.push('Another session has the same id');
+  if (s.active && s.endTime !== undefined) errors.push('An active session cannot have an end time');
+  if (!s.active && s.endTime === undefined) errors.push('An ended session needs an end time');
+  if (s.endTime !== undefined && s.endTime < s.startTime) errors.push('The session ends before it starts');
+  // One active session per profile; profiles sharing the device each have their own.
+  if (s.active && sessions.some(x => x.active && x.id !== s.id && ownerOf(x) === ownerOf(s))) errors.push('Another session is already active');
+  for (const ev of s.consumptions) {
+    if (ev.timestamp < s.startTime) errors.push('A consumption is logged before the session starts');
+    else if (s.endTime !== undefined && ev.timestamp > s.endTime) errors.push('A consumption is logged after the session ends');
+  }
+  return [...new Set(errors)];
+}
+
+function replace(sessions: Session[], next: Session): Session[] {
+  return sessions.map(s => s.id === next.id ? next : s);
+}
+
+function apply(sessions: Session[], action: SessionAction): { sessions: Session[]; changed?: string[] } {
+  switch (action.type) {
+    case 'start':
+      if (!action.session.active) throw new SessionStoreError('A new session must be active');
+      return { sessions: [...sessions, action.session].sort(byTimeAsc), changed: [action.session.id] };
+    case 'addConsumption': {
+      const s = find(sessions, action.sessionId);
+      if (!s.active) throw new SessionStoreError('Consumptions can only be added to the active session');
+      if (s.consumptions.some(ev => ev.id === action.consumption.id)) throw new SessionStoreError('This consumption is already logged');
+      return { sessions: replace(sessions, { ...s, consumptions: [...s.consumptions, action.consumption] }), changed: [s.id] };
+    }
+    case 'updateDetails': {
+      const s = find(sessions, action.sessionId);
+      const details = Object.fromEntries(DETAIL_KEYS.filter(k => k in action.details).map(k => [k, action.details[k]]));
+      return { sessions: replace(sessions, { ...s, ...details }), changed: [s.id] };
+    }
+    case 'end': {
+      const s = find(sessions, action.sessionId);
+      if (!s.active) throw new SessionStoreError('This session has already ended');
+      return { sessions: replace(sessions, { ...s, active: false, endTime: action.at }), changed: [s.id] };
+    }
+    case 'resume': {
+      const s = find(sessions, action.sessionId);
+      if (s.active) return { sessions };
+      return { sessions: replace(sessions, resumeSession(s, action.at)), changed: [s.id] };
+    }
+    case 'confirmEnd':
+      return { sessions: replace(sessions, confirmAutoClose(find(sessions, action.sessionId), action.endTime)), changed: [action.sessionId] };
+    case 'save': {
+      const exists = sessions.some(s => s.id === action.session.id);
+      const next = exists ? replace(sessions, action.session) : [...sessions, action.session];
+      return { sessions: next.sort(byTimeAsc), changed: [action.session.id] };
+    }
+    case 'delete':
+      find(sessions, action.sessionId);
+      return { sessions: sessions.filter(s => s.id !== action.sessionId) };
+    case 'addCheckIn':
+      find(sessions, action.sessionId);
+      return { sessions: addCheckIn(sessions, action.sessionId, action.checkIn), changed: [action.sessionId] };
+    case 'locate': {
+      // The position arrives a little after the start; by then the session may be over or gone.
+      const s = sessions.find(x => x.id === action.sessionId);
+      if (!s?.active) return { sessions };
+      const located = applyGeo(s, action.geo, action.privacy);
+      return located === s ? { sessions } : { sessions: replace(sessions, located), changed: [s.id] };
+    }
+    case 'renameTerm':
+      return { sessions: renameInSessions(sessions, action.kind, action.from, action.to) };
+    case 'removeProfile':
+      return { sessions: removeProfileSessions(sessions, action.profileId) };
+    case 'applyRetention':
+      return { sessions: applyRetention(sessions, action.retention, action.now) };
+    case 'import': {
+      // Only the sessions the profile owns are replaced; group sessions owned by others are
+      // updated by id but never dropped. Imported sessions that differ from the log are checked.
+      const ids = new Set(action.sessions.map(s => s.id));
+      const before = new Map(sessions.map(s => [s.id, s]));
+      const kept = sessions.filter(s => ownerOf(s) !== action.profileId && !ids.has(s.id));
+      return { sessions: [...kept, ...action.sessions].sort(byTimeAsc), changed: action.sessions.filter(s => before.get(s.id) !== s).map(s => s.id) };
+    }
+    case 'restore':
+      return { sessions: [...action.sessions].sort(byTimeAsc) };
+  }
+}
+
+// Applies one action to the log and returns the new log, leaving `sessions` untouched.
+// Throws a SessionStoreError if the action does not apply or would break an invariant.
+export function sessionReducer(sessions: Session[], action: SessionAction): Session[] {
+  const { sessions: next, changed = [] } = apply(sessions, action);
+  for (const id of changed) {
+    const errors = sessionErrors(next, find(next, id));
+    if (errors.length) throw new SessionStoreError(changed.length > 1 ? `Session from ${new Date(find(next, id).startTime).toLocaleString()}: ${errors.join('; ')}` : errors.join('; '));
+  }
+  return next;
+}
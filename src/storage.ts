@@ -0,0 +1,358 @@
+import type { AppData, Session } from './types';
+import { broadcastMetaChange, getMeta, loadAllSessions, openSessionDb, reencryptDatabase, replaceAllSessions, seedIfEmpty } from './db';
+import { createPasscode, getActiveKey, openValue, sealValue, type PasscodeConfig } from './crypto';
+import { generateId, getTimeOfDay } from './utils';
+import { applyRetention, retentionCutoff, type PrivacySettings } from './privacy';
+import { isValidSession, validateSession } from './validation';
+
+const DATA_KEY = 'WEED_SESSIONS';
+const LEGACY_KEYS = ['WEED_SESSIONS_V1'];
+const SNAPSHOTS_KEY = 'WEED_SESSIONS_SNAPSHOTS';
+const QUARANTINE_PREFIX = 'WEED_SESSIONS_QUARANTINE_';
+
+const MAX_SNAPSHOTS = 10;
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+
+export const CURRENT_VERSION = 3;
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+type Payload = Record<string, unknown>;
+type Migration = (data: Payload) => Payload;
+
+function isPayload(v: unknown): v is Payload {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// Upgrades the sessions that are objects; anything else is left for validation to report.
+function mapSessions(data: Payload, upgrade: (s: Payload) => Payload): unknown[] {
+  return (Array.isArray(data.sessions) ? data.sessions : []).map(s => isPayload(s) ? upgrade(s) : s);
+}
+
+// migrations[n] upgrades a payload from version n to n + 1.
+const migrations: Record<number, Migration> = {
+  1: (data) => ({
+    ...data,
+    version: 2,
+    sessions: mapSessions(data, s => ({
+      ...s,
+      timeOfDay: s.timeOfDay ?? (typeof s.startTime === 'number' ? getTimeOfDay(new Date(s.startTime)) : undefined),
+      context: s.context ?? {},
+      social: s.social ?? {},
+      user: s.user ?? {},
+      supplements: s.supplements ?? [],
+      effects: s.effects ?? [],
+      consumptions: s.consumptions ?? []
+    }))
+  }),
+  // v3: consumption events get their own ids so they can be stored as separate records.
+  2: (data) => ({
+    ...data,
+    version: 3,
+    sessions: mapSessions(data, s => !Array.isArray(s.consumptions) ? s : ({
+      ...s,
+      consumptions: s.consumptions.map((ev: unknown) => !isPayload(ev) || ev.id ? ev : { ...ev, id: generateId('c') })
+    }))
+  })
+};
+
+export function migrateAppData(raw: unknown): AppData {
+  // Pre-v1 builds stored a bare array of sessions.
+  const payload: unknown = Array.isArray(raw) ? { sessions: raw, createdAt: Date.now(), version: 1 } : raw;
+  if (!isPayload(payload) || !Array.isArray(payload.sessions)) throw new StorageError('Payload has no sessions array');
+  let data = payload;
+  let version = typeof data.version === 'number' ? data.version : 1;
+  if (version > CURRENT_VERSION) throw new StorageError(`Data version ${version} is newer than this app (${CURRENT_VERSION})`);
+  while (version < CURRENT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new StorageError(`No migration from version ${version}`);
+    data = migrate(data);
+    version++;
+  }
+  return { ...data, createdAt: data.createdAt ?? Date.now(), version } as AppData;
+}
+
+export type QuarantineEntry = {
+  key: string;
+  quarantinedAt: number;
+  reason: string;
+  raw: string;
+};
+
+// Copies a payload aside for manual recovery. Returns undefined when there is no room for it,
+// which is likely for the large payloads that end up here; the caller then keeps the original.
+function quarantine(raw: string, reason: string): string | undefined {
+  const quarantinedAt = Date.now();
+  const key = `${QUARANTINE_PREFIX}${quarantinedAt}_${Math.random().toString(36).slice(2, 8)}`;
+  try {
+    localStorage.setItem(key, JSON.stringify({ quarantinedAt, reason, raw }));
+    return key;
+  } catch {
+    return undefined;
+  }
+}
+
+// `raw` is sealed while a passcode is set.
+type StoredQuarantine = {
+  quarantinedAt: number;
+  reason: string;
+  raw: unknown;
+};
+
+function readQuarantine(): (StoredQuarantine & { key: string })[] {
+  const entries: (StoredQuarantine & { key: string })[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(QUARANTINE_PREFIX)) continue;
+    try {
+      entries.push({ key, ...JSON.parse(localStorage.getItem(key)!) });
+    } catch {
+      entries.push({ key, quarantinedAt: 0, reason: 'Unreadable quarantine entry', raw: localStorage.getItem(key) ?? '' });
+    }
+  }
+  return entries;
+}
+
+export async function listQuarantine(): Promise<QuarantineEntry[]> {
+  const entries: QuarantineEntry[] = [];
+  for (const { key, quarantinedAt, reason, raw } of readQuarantine()) {
+    try {
+      entries.push({ key, quarantinedAt, reason, raw: await openValue<string>(raw) });
+    } catch {
+      entries.push({ key, quarantinedAt, reason: `${reason} (sealed under a passcode that is no longer set)`, raw: '' });
+    }
+  }
+  return entries.sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+}
+
+// Seals quarantined payloads under the active key, if any; a payload left in plain text
+// would defeat the passcode. Entries that cannot be rewritten are left as they are.
+async function sealQuarantine(entries: QuarantineEntry[]): Promise<void> {
+  for (const { key, quarantinedAt, reason, raw } of entries) {
+    if (!raw) continue;
+    try {
+      localStorage.setItem(key, JSON.stringify({ quarantinedAt, reason, raw: await sealValue(raw) }));
+    } catch {
+      // out of quota; the entry can still be downloaded or discarded
+    }
+  }
+}
+
+export function discardQuarantine(key: string): void {
+  if (key.startsWith(QUARANTINE_PREFIX)) localStorage.removeItem(key);
+}
+
+export type LoadResult = {
+  data: AppData;
+  migratedFrom?: number;
+  quarantined?: { key?: string; reason: string }; // no key when it had to be left in place
+};
+
+function setAside(raw: string, reason: string): NonNullable<LoadResult['quarantined']> {
+  const key = quarantine(raw, reason);
+  return key ? { key, reason } : { reason: `${reason} (storage is full, so it was left in place)` };
+}
+
+function emptyData(): AppData {
+  return { sessions: [], createdAt: Date.now(), version: CURRENT_VERSION };
+}
+
+export function loadAppData(): LoadResult {
+  let raw = localStorage.getItem(DATA_KEY);
+  for (const legacy of LEGACY_KEYS) {
+    if (raw) break;
+    raw = localStorage.getItem(legacy);
+  }
+  if (!raw) return { data: emptyData() };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    const reason = 'Unparseable JSON: ' + (e as Error).message;
+    return { data: emptyData(), quarantined: setAside(raw, reason) };
+  }
+
+  const fromVersion = Array.isArray(parsed) ? 1 : (parsed as { version?: number })?.version ?? 1;
+  let data: AppData;
+  try {
+    data = migrateAppData(parsed);
+  } catch (e) {
+    const reason = (e as Error).message;
+    return { data: emptyData(), quarantined: setAside(raw, reason) };
+  }
+
+  const valid: Session[] = [];
+  const invalid: string[] = [];
+  data.sessions.forEach((s, i) => {
+    const errors = validateSession(s);
+    if (errors.length) invalid.push(`#${i + 1}: ${errors[0]}`);
+    else valid.push(s);
+  });
+  const result: LoadResult = { data: { ...data, sessions: valid } };
+  if (fromVersion !== CURRENT_VERSION) result.migratedFrom = fromVersion;
+  if (invalid.length) {
+    // Keep the original payload so the dropped records can be recovered by hand.
+    const reason = `${invalid.length} invalid session(s) dropped (${invalid.slice(0, 3).join('; ')})`;
+    result.quarantined = setAside(raw, reason);
+  }
+  return result;
+}
+
+export type Snapshot = {
+  takenAt: number;
+  data: AppData;
+};
+
+// `data` is sealed while a passcode is set.
+type StoredSnapshot = {
+  takenAt: number;
+  data: unknown;
+};
+
+function readSnapshots(): StoredSnapshot[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SNAPSHOTS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function listSnapshots(): Promise<Snapshot[]> {
+  const snapshots: Snapshot[] = [];
+  for (const snap of readSnapshots()) {
+    try {
+      snapshots.push({ takenAt: snap.takenAt, data: await openValue<AppData>(snap.data) });
+    } catch {
+      // sealed under a key we no longer have
+    }
+  }
+  return snapshots;
+}
+
+function writeSnapshots(snapshots: StoredSnapshot[]): void {
+  // Drop the oldest snapshots until the list fits in the remaining quota.
+  let list = snapshots.slice(-MAX_SNAPSHOTS);
+  while (list.length) {
+    try {
+      localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(list));
+      return;
+    } catch {
+      list = list.slice(1);
+    }
+  }
+  localStorage.removeItem(SNAPSHOTS_KEY);
+}
+
+export async function takeSnapshot(data: AppData, force = false): Promise<void> {
+  const existing = readSnapshots();
+  const last = existing[existing.length - 1];
+  if (!force && last && Date.now() - last.takenAt < SNAPSHOT_INTERVAL_MS) return;
+  if (!data.sessions.length) return;
+  const sealed = await sealValue(data);
+  writeSnapshots([...readSnapshots(), { takenAt: Date.now(), data: sealed }]);
+}
+
+export async function restoreSnapshot(takenAt: number): Promise<AppData> {
+  const snap = (await listSnapshots()).find(s => s.takenAt === takenAt);
+  if (!snap) throw new StorageError('Snapshot not found');
+  return migrateAppData(snap.data);
+}
+
+// Called once the data has been moved into IndexedDB; snapshots and quarantine stay here.
+export function clearAppData(): void {
+  localStorage.removeItem(DATA_KEY);
+  for (const legacy of LEGACY_KEYS) localStorage.removeItem(legacy);
+}
+
+// The retention rule applied to a quarantined payload's sessions. Sessions too broken to
+// anonymize are dropped once they are past the cutoff. Undefined when there is nothing to
+// change, or the payload cannot be read.
+function retainQuarantined(raw: string, retention: PrivacySettings['retention'], now: number): string | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  const payload = isPayload(parsed) && Array.isArray(parsed.sessions) ? parsed : undefined;
+  const sessions: unknown[] | undefined = Array.isArray(parsed) ? parsed : payload?.sessions as unknown[] | undefined;
+  if (!sessions) return undefined;
+  const cutoff = retentionCutoff(retention, now);
+  const kept = sessions.flatMap(s => {
+    if (isValidSession(s)) return applyRetention([s], retention, now);
+    const time = isPayload(s) ? [s.endTime, s.startTime].find(t => typeof t === 'number') : undefined;
+    return typeof time === 'number' && time < cutoff ? [] : [s];
+  });
+  if (kept.length === sessions.length && kept.every((s, i) => s === sessions[i])) return undefined;
+  return JSON.stringify(payload ? { ...payload, sessions: kept } : kept);
+}
+
+// Applies a retention rule to the snapshots and the quarantine too, so purged or anonymized
+// sessions do not live on in the backups. Quarantined entries older than the cutoff are
+// dropped whole, as are snapshots that can no longer be opened. Must be called while unlocked.
+export async function applyRetentionToBackups(retention: PrivacySettings['retention'], now: number): Promise<void> {
+  if (!retention.enabled || retention.days <= 0) return;
+  const stored = readSnapshots();
+  const snapshots = await listSnapshots();
+  let changed = snapshots.length !== stored.length;
+  const retained = snapshots.map(snap => {
+    const sessions = applyRetention(snap.data.sessions, retention, now);
+    if (sessions !== snap.data.sessions) changed = true;
+    return { takenAt: snap.takenAt, data: { ...snap.data, sessions } };
+  });
+  if (changed) writeSnapshots(await Promise.all(retained.map(async snap => ({ takenAt: snap.takenAt, data: await sealValue(snap.data) }))));
+
+  const cutoff = retentionCutoff(retention, now);
+  const rewritten: QuarantineEntry[] = [];
+  for (const entry of await listQuarantine()) {
+    if (entry.quarantinedAt < cutoff) {
+      discardQuarantine(entry.key);
+      continue;
+    }
+    const raw = entry.raw && retainQuarantined(entry.raw, retention, now);
+    if (raw) rewritten.push({ ...entry, raw });
+  }
+  await sealQuarantine(rewritten);
+}
+
+export type StoreInit = LoadResult & { db: IDBDatabase };
+
+export async function openSessionStore(): Promise<StoreInit> {
+  const db = await openSessionDb();
+  let legacy: LoadResult | undefined;
+  const seeded = await seedIfEmpty(db, () => (legacy = loadAppData()).data);
+  // Payloads quarantined before the passcode was set are still in plain text.
+  if (getActiveKey()) await sealQuarantine(readQuarantine().filter((q): q is QuarantineEntry => typeof q.raw === 'string'));
+  if (seeded) {
+    // A payload that could not be copied aside stays where it is, the only copy left.
+    if (!legacy?.quarantined || legacy.quarantined.key) clearAppData();
+    return { ...legacy!, db };
+  }
+  const info = await getMeta<{ createdAt: number; version: number }>(db, 'appData');
+  const sessions = await loadAllSessions(db);
+  const data = migrateAppData({ ...info, sessions });
+  if (info?.version === data.version) return { db, data };
+  await replaceAllSessions(db, data);
+  return { db, data, migratedFrom: info?.version };
+}
+
+// Sets, changes or (with an empty passcode) removes the passcode, re-encrypting the
+// database, the snapshots and the quarantine to match. Must be called while unlocked.
+export async function changePasscode(passcode: string, idleMinutes: number): Promise<PasscodeConfig | undefined> {
+  const db = await openSessionDb();
+  const snapshots = await listSnapshots();
+  const quarantined = await listQuarantine();
+  const next = passcode ? await createPasscode(passcode, idleMinutes) : undefined;
+  await reencryptDatabase(db, next?.config, next?.key);
+  writeSnapshots(await Promise.all(snapshots.map(async snap => ({ takenAt: snap.takenAt, data: await sealValue(snap.data) }))));
+  await sealQuarantine(quarantined);
+  broadcastMetaChange('passcode');
+  return next?.config;
+}
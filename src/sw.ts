@@ -0,0 +1,87 @@
+// Service worker, built to /sw.js by the pwa plugin in vite.config.ts, which also fills
+// in the two placeholders below. It has no imports so it can run as a classic worker.
+
+const PRECACHE_URLS: string[] = JSON.parse('__PRECACHE_MANIFEST__');
+const CACHE = 'weed-sessions-' + '__CACHE_VERSION__';
+const INDEX_URL = '/index.html';
+
+type ExtendableEvent = Event & { waitUntil(promise: Promise<unknown>): void };
+type FetchEvent = ExtendableEvent & { request: Request; respondWith(response: Promise<Response>): void };
+type NotificationEvent = ExtendableEvent & { action: string; notification: Notification };
+type WindowClient = { focus(): Promise<unknown>; postMessage(message: unknown): void };
+type WorkerScope = {
+  skipWaiting(): Promise<void>;
+  clients: {
+    claim(): Promise<void>;
+    matchAll(options: { type: 'window'; includeUncontrolled: boolean }): Promise<WindowClient[]>;
+    openWindow(url: string): Promise<unknown>;
+  };
+  addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEvent) => void): void;
+  addEventListener(type: 'fetch', listener: (event: FetchEvent) => void): void;
+  addEventListener(type: 'notificationclick', listener: (event: NotificationEvent) => void): void;
+};
+
+const worker = self as unknown as WorkerScope;
+
+worker.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll([INDEX_URL, ...PRECACHE_URLS])).then(() => worker.skipWaiting()));
+});
+
+worker.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith('weed-sessions-') && k !== CACHE).map(k => caches.delete(k))))
+      .then(() => worker.clients.claim())
+  );
+});
+
+// Navigations try the network first so a new deploy is picked up, and fall back to the
+// cached shell offline. Everything else is served cache-first; built assets are hashed.
+worker.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== location.origin) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE).then(cache => cache.put(INDEX_URL, copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match(INDEX_URL).then(cached => cached ?? Response.error()))
+    );
+    return;
+  }
+  event.respondWith(
+    caches.match(request).then(cached => cached ?? fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE).then(cache => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
+
+// Reminder notifications are shown by the page, which holds the decrypted data. Their actions
+// are handed back to an open window, or to a new one through its URL (`?reminder-action=…`)
+// when every window has been closed since; a plain click brings the app to the front.
+worker.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const { action } = event;
+  const reminder = event.notification.data as { kind: string; key: string } | null;
+  event.waitUntil(worker.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+    if (action && reminder && windows.length) {
+      windows.forEach(w => w.postMessage({ type: 'reminder-action', action, reminder }));
+      return;
+    }
+    if (windows.length) return windows[0].focus();
+    if (!action || !reminder) return worker.clients.openWindow('/');
+    const params = new URLSearchParams({ 'reminder-action': action, kind: reminder.kind, key: reminder.key });
+    return worker.clients.openWindow('/?' + params.toString());
+  }));
+});
+
+export {};
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  acknowledge, applyRemote, DEFAULT_SYNC_SETTINGS, EMPTY_SYNC_STATE, exchange, openSyncSpace, pendingRecords, receive, resendAll, SyncError, tick,
+  trackChanges, type Replica, type SyncRecord, type SyncState
+} from './sync';
+import { createKey } from './crypto';
+import { DEFAULT_PROFILES } from './profiles';
+import { consumption, HOUR, MIN, session, T0 } from './testFixtures';
+import type { Session } from './types';
+
+// An in-memory stand-in for server/syncServer.mjs: newest revision per key, handed out by sequence.
+function createServer() {
+  const records = new Map<string, SyncRecord & { seq: number }>();
+  let seq = 0;
+  return (since: number, changes: SyncRecord[]) => {
+    for (const r of changes) {
+      const current = records.get(r.key);
+      if (!current || current.rev < r.rev) records.set(r.key, { ...r, seq: ++seq });
+    }
+    const newer = [...records.values()].filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+    return { cursor: seq, changes: newer.map(({ seq: _omit, ...r }) => r as SyncRecord) };
+  };
+}
+
+type Device = Replica & { state: SyncState };
+
+function device(id: string, sessions: Session[] = []): Device {
+  return { sessions, profiles: DEFAULT_PROFILES, state: { ...EMPTY_SYNC_STATE, deviceId: id } };
+}
+
+const only = (sessions: Session[]): Replica => ({ sessions, profiles: [] });
+
+let now = T0;
+
+function edit(d: Device, change: (sessions: Session[]) => Session[]) {
+  d.sessions = change(d.sessions);
+  d.state = trackChanges(d.state, d, now += 1000);
+}
+
+function sync(d: Device, server: ReturnType<typeof createServer>) {
+  const tracked = trackChanges(d.state, d, now += 1000);
+  const pushed = pendingRecords(tracked, d);
+  const reply = server(tracked.cursor, pushed);
+  const merged = applyRemote(d, acknowledge(tracked, pushed, reply.cursor, now), reply.changes);
+  d.sessions = merged.sessions;
+  d.profiles = merged.profiles;
+  d.state = merged.state;
+}
+
+describe('clock', () => {
+  it('orders stamps made within the same millisecond', () => {
+    const a = tick({ ms: 0, counter: 0 }, T0);
+    expect(tick(a, T0)).toEqual({ ms: T0, counter: 1 });
+    expect(tick(a, T0 - 5)).toEqual({ ms: T0, counter: 1 });
+  });
+
+  it('moves past stamps from a device whose clock runs ahead', () => {
+    const ahead = `${(T0 + HOUR).toString(36).padStart(9, '0')}-0003-other`;
+    expect(receive({ ms: T0, counter: 0 }, ahead)).toEqual({ ms: T0 + HOUR, counter: 3 });
+  });
+});
+
+describe('trackChanges', () => {
+  it('stamps new, changed and removed records once', () => {
+    const s = session({ consumptions: [consumption()] });
+    const first = trackChanges(device('a').state, only([s]), T0);
+    expect(first.pending.sort()).toEqual(['c:c1', 's:s1']);
+    expect(trackChanges(first, only([s]), T0 + 1)).toBe(first);
+    const removed = trackChanges({ ...first, pending: [] }, only([{ ...s, consumptions: [] }]), T0 + 2);
+    expect(removed.pending).toEqual(['c:c1']);
+    expect(pendingRecords(removed, only([{ ...s, consumptions: [] }]))).toEqual([{ key: 'c:c1', rev: removed.records['c:c1'].rev, deleted: true }]);
+  });
+});
+
+describe('sync between devices', () => {
+  it('copies the log to a new device', () => {
+    const server = createServer();
+    const phone = device('phone', [session({ consumptions: [consumption()] })]);
+    const laptop = device('laptop');
+    sync(phone, server);
+    sync(laptop, server);
+    expect(laptop.sessions).toEqual(phone.sessions);
+    expect(laptop.state.pending).toEqual([]);
+  });
+
+  it('merges offline edits to different records and keeps the latest edit of the same one', () => {
+    const server = createServer();
+    const phone = device('phone', [session()]);
+    const laptop = device('laptop');
+    sync(phone, server);
+    sync(laptop, server);
+    edit(phone, ss => ss.map(s => ({ ...s, consumptions: [consumption({ id: 'p1', timestamp: T0 + MIN })] })));
+    edit(laptop, ss => ss.map(s => ({ ...s, consumptions: [consumption({ id: 'l1', timestamp: T0 + 2 * MIN })] })));
+    edit(phone, ss => ss.map(s => ({ ...s, notes: 'phone' })));
+    edit(laptop, ss => ss.map(s => ({ ...s, notes: 'laptop' })));
+    sync(phone, server);
+    sync(laptop, server);
+    sync(phone, server);
+    expect(phone.sessions).toEqual(laptop.sessions);
+    expect(phone.sessions[0].consumptions.map(ev => ev.id)).toEqual(['p1', 'l1']);
+    expect(phone.sessions[0].notes).toBe('laptop');
+  });
+
+  it('replicates deletions', () => {
+    const server = createServer();
+    const phone = device('phone', [session({ consumptions: [consumption()] })]);
+    const laptop = device('laptop');
+    sync(phone, server);
+    sync(laptop, server);
+    edit(laptop, () => []);
+    sync(laptop, server);
+    sync(phone, server);
+    expect(phone.sessions).toEqual([]);
+  });
+
+  it('re-uploads without undoing deletions and edits made elsewhere since', () => {
+    const server = createServer();
+    const phone = device('phone', [session({ id: 'a' }), session({ id: 'b', startTime: T0 + HOUR })]);
+    const laptop = device('laptop');
+    sync(phone, server);
+    sync(laptop, server);
+    edit(laptop, ss => ss.filter(s => s.id !== 'a').map(s => ({ ...s, notes: 'laptop' })));
+    sync(laptop, server);
+    phone.state = resendAll(phone.state);
+    sync(phone, server);
+    sync(laptop, server);
+    expect(phone.sessions.map(s => [s.id, s.notes])).toEqual([['b', 'laptop']]);
+    expect(laptop.sessions.map(s => [s.id, s.notes])).toEqual([['b', 'laptop']]);
+  });
+
+  it('keeps one active session per profile, ending the older one for confirmation', () => {
+    const server = createServer();
+    const phone = device('phone', [session({ id: 'a', active: true, endTime: undefined, startTime: T0 })]);
+    const laptop = device('laptop', [session({ id: 'b', active: true, endTime: undefined, startTime: T0 + HOUR })]);
+    sync(phone, server);
+    sync(laptop, server);
+    sync(phone, server);
+    expect(phone.sessions.filter(s => s.active).map(s => s.id)).toEqual(['b']);
+    expect(phone.sessions.find(s => s.id === 'a')).toMatchObject({ active: false, autoClosed: true, endTime: T0 });
+    expect(laptop.sessions.filter(s => s.active).map(s => s.id)).toEqual(['b']);
+  });
+
+  it('ignores records that would not make a valid session', () => {
+    const phone = device('phone', [session()]);
+    const bad: SyncRecord = { key: 's:s1', rev: `${(T0 * 2).toString(36)}-0000-x`, value: { id: 's1', startTime: 'soon' } as never };
+    const merged = applyRemote(phone, trackChanges(phone.state, phone, T0), [bad]);
+    expect(merged.sessions).toEqual(phone.sessions);
+  });
+
+  it('replicates profiles, so sessions keep their owner on every device', () => {
+    const server = createServer();
+    const phone = device('phone', [session({ profileId: 'alex' })]);
+    phone.profiles = [...DEFAULT_PROFILES, { id: 'alex', name: 'Alex' }];
+    const laptop = device('laptop');
+    sync(phone, server);
+    sync(laptop, server);
+    expect(laptop.profiles).toEqual(phone.profiles);
+    phone.profiles = DEFAULT_PROFILES;
+    sync(phone, server);
+    sync(laptop, server);
+    expect(laptop.profiles).toEqual(DEFAULT_PROFILES);
+  });
+});
+
+describe('exchange', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const settings = { ...DEFAULT_SYNC_SETTINGS, enabled: true, url: 'http://sync.test', token: 't', passphrase: 'correct horse' };
+
+  // Keeps the first space set up and whatever was posted last, and sends the records back as the
+  // server does for a new device.
+  function stubServer() {
+    let space: unknown = null;
+    let stored: unknown[] = [];
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      const body = init.body === undefined ? undefined : JSON.parse(init.body as string);
+      if (url.endsWith('/space')) {
+        if (body && space === null) space = body;
+        return new Response(JSON.stringify({ space }));
+      }
+      if (body.changes.length) stored = body.changes;
+      return new Response(JSON.stringify({ cursor: stored.length, changes: stored }));
+    });
+    return { uploaded: () => stored, space: () => space };
+  }
+
+  it('only sends ciphertext and opens it again with the same passphrase', async () => {
+    const { uploaded } = stubServer();
+    const key = await openSyncSpace(settings);
+    const s = session({ notes: 'private' });
+    const state = trackChanges(device('a').state, only([s]), T0);
+    const pushed = pendingRecords(state, only([s]));
+    const reply = await exchange(settings, key, 'a', 0, pushed);
+    expect(JSON.stringify(uploaded())).not.toContain('private');
+    expect(reply.changes).toEqual(pushed);
+  });
+
+  it('fails rather than skipping records sealed under another passphrase', async () => {
+    stubServer();
+    const s = session();
+    const pushed = pendingRecords(trackChanges(device('a').state, only([s]), T0), only([s]));
+    await exchange(settings, (await createKey('another')).key, 'a', 0, pushed);
+    await expect(exchange(settings, await openSyncSpace(settings), 'b', 0, [])).rejects.toThrow(SyncError);
+  });
+
+  it('salts each server differently and lets later devices in only with the same passphrase', async () => {
+    const first = stubServer();
+    const s = session();
+    const pushed = pendingRecords(trackChanges(device('a').state, only([s]), T0), only([s]));
+    await exchange(settings, await openSyncSpace(settings), 'a', 0, pushed);
+    const reply = await exchange(settings, await openSyncSpace(settings), 'b', 0, []);
+    expect(reply.changes).toEqual(pushed);
+    await expect(openSyncSpace({ ...settings, passphrase: 'another one' })).rejects.toThrow(SyncError);
+    const second = stubServer();
+    await openSyncSpace(settings);
+    expect((second.space() as { salt: string }).salt).not.toBe((first.space() as { salt: string }).salt);
+  });
+});
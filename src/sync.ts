@@ -0,0 +1,305 @@
+import type { ConsumptionEvent, Session } from './types';
+import { createKey, DecryptError, isKeyCheck, isSealed, openText, sealText, unlockKey } from './crypto';
+import { canonical } from './importData';
+import { ownerOf, type Profile } from './profiles';
+import { lastActivityAt } from './sessionLifecycle';
+import { byTimeAsc } from './utils';
+import { validateSession } from './validation';
+
+// Sync replicates every session, consumption and profile as its own record, keyed by its id.
+// Each change is stamped by a hybrid logical clock, and the highest stamp wins on every device
+// and on the server, so replicas converge whatever order changes arrive in. Deletions are kept
+// as tombstones. Record values are encrypted before they leave the device, so the server only
+// sees keys, stamps and ciphertext.
+
+export type SyncSettings = {
+  enabled: boolean;
+  url: string; // e.g. http://localhost:8787
+  token: string; // sent as a bearer token; the server requires one
+  passphrase: string; // encrypts record values; the same on every device
+};
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, url: '', token: '', passphrase: '' };
+
+type SessionValue = Omit<Session, 'consumptions'>;
+type ConsumptionValue = ConsumptionEvent & { sessionId: string };
+type RecordValue = SessionValue | ConsumptionValue | Profile;
+
+export type SyncRecord =
+  | { key: string; rev: string; deleted?: false; value: RecordValue }
+  | { key: string; rev: string; deleted: true; value?: undefined };
+
+// What is replicated: the whole session log and the household's profiles, so every device
+// knows who owns each session.
+export type Replica = { sessions: Session[]; profiles: Profile[] };
+
+export type Clock = { ms: number; counter: number };
+
+export type SyncState = {
+  deviceId: string;
+  clock: Clock;
+  cursor: number; // the server's sequence number we are up to date with
+  records: Record<string, { rev: string; hash: string }>; // every record this device has seen
+  pending: string[]; // keys changed here and not yet accepted by the server
+  lastSyncedAt?: number;
+};
+
+export const EMPTY_SYNC_STATE: SyncState = { deviceId: '', clock: { ms: 0, counter: 0 }, cursor: 0, records: {}, pending: [] };
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+const DELETED = 'deleted';
+
+// Stamps sort as strings: time, then counter, then device to break ties.
+function stamp(clock: Clock, deviceId: string): string {
+  return `${clock.ms.toString(36).padStart(9, '0')}-${clock.counter.toString(36).padStart(4, '0')}-${deviceId}`;
+}
+
+function parseStamp(rev: string): Clock {
+  const [ms, counter] = rev.split('-');
+  return { ms: parseInt(ms, 36) || 0, counter: parseInt(counter, 36) || 0 };
+}
+
+export function tick(clock: Clock, now: number): Clock {
+  return now > clock.ms ? { ms: now, counter: 0 } : { ms: clock.ms, counter: clock.counter + 1 };
+}
+
+// Moves the clock past a stamp seen from another device, so later edits here sort after it.
+export function receive(clock: Clock, rev: string): Clock {
+  const seen = parseStamp(rev);
+  return seen.ms > clock.ms || (seen.ms === clock.ms && seen.counter > clock.counter) ? seen : clock;
+}
+
+// A short fingerprint of a record's content, to notice local edits without keeping a copy.
+function hashOf(value: unknown): string {
+  const text = canonical(value);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(36) + (h1 >>> 0).toString(36);
+}
+
+const sessionKey = (id: string) => `s:${id}`;
+const consumptionKey = (id: string) => `c:${id}`;
+const profileRecordKey = (id: string) => `p:${id}`;
+const isProfileKey = (key: string) => key.startsWith('p:');
+
+function sessionValues(sessions: Session[]): Map<string, SessionValue | ConsumptionValue> {
+  const values = new Map<string, SessionValue | ConsumptionValue>();
+  for (const { consumptions, ...rest } of sessions) {
+    values.set(sessionKey(rest.id), rest);
+    for (const ev of consumptions) values.set(consumptionKey(ev.id), { ...ev, sessionId: rest.id });
+  }
+  return values;
+}
+
+export function toRecordValues(replica: Replica): Map<string, RecordValue> {
+  const values: Map<string, RecordValue> = sessionValues(replica.sessions);
+  for (const p of replica.profiles) values.set(profileRecordKey(p.id), p);
+  return values;
+}
+
+// Stamps every record that was added, changed or removed since this device last looked.
+// Returns `state` itself when nothing changed.
+export function trackChanges(state: SyncState, replica: Replica, now: number): SyncState {
+  const values = toRecordValues(replica);
+  let clock = state.clock;
+  const records = { ...state.records };
+  const pending = new Set(state.pending);
+  const mark = (key: string, hash: string) => {
+    clock = tick(clock, now);
+    records[key] = { rev: stamp(clock, state.deviceId), hash };
+    pending.add(key);
+  };
+  for (const [key, value] of values) {
+    const hash = hashOf(value);
+    if (records[key]?.hash !== hash) mark(key, hash);
+  }
+  for (const key of Object.keys(state.records)) {
+    if (!values.has(key) && state.records[key].hash !== DELETED) mark(key, DELETED);
+  }
+  return clock === state.clock ? state : { ...state, clock, records, pending: [...pending] };
+}
+
+export function pendingRecords(state: SyncState, replica: Replica): SyncRecord[] {
+  const values = toRecordValues(replica);
+  return state.pending.map(key => {
+    const value = values.get(key);
+    const { rev } = state.records[key];
+    return value ? { key, rev, value } : { key, rev, deleted: true };
+  });
+}
+
+// Pushed records stay pending if they were edited again while the request was out.
+export function acknowledge(state: SyncState, pushed: SyncRecord[], cursor: number, now: number): SyncState {
+  const accepted = new Set(pushed.filter(r => state.records[r.key]?.rev === r.rev).map(r => r.key));
+  return { ...state, pending: state.pending.filter(k => !accepted.has(k)), cursor, lastSyncedAt: now };
+}
+
+// Uploads every record again and downloads everything from the server. Records keep the
+// revisions they have, so changes and deletions made since on other devices still win.
+export function resendAll(state: SyncState): SyncState {
+  return { ...state, cursor: 0, pending: Object.keys(state.records) };
+}
+
+// Two devices may each have started a session for the same profile while apart. The latest
+// stays active; the others are ended at their last activity for the user to confirm.
+function closeExtraActive(sessions: Session[]): Session[] {
+  const keep = new Map<string, Session>();
+  for (const s of sessions) {
+    const current = keep.get(ownerOf(s));
+    if (s.active && (!current || s.startTime > current.startTime)) keep.set(ownerOf(s), s);
+  }
+  return sessions.map(s => s.active && keep.get(ownerOf(s)) !== s ? { ...s, active: false, endTime: lastActivityAt(s), autoClosed: true } : s);
+}
+
+// Profiles from the server replace local ones with the same id; new ones are added at the end.
+// A device always keeps at least one profile.
+function mergeProfiles(local: Profile[], changed: Map<string, Profile | undefined>): Profile[] {
+  const merged = new Map(local.map(p => [p.id, p]));
+  for (const [id, p] of changed) {
+    if (p) merged.set(id, p);
+    else merged.delete(id);
+  }
+  return merged.size ? [...merged.values()] : local;
+}
+
+// Applies records from the server that are newer than what this device has. Untouched
+// sessions and profiles keep their identity, so only real changes are written to the database.
+export function applyRemote(replica: Replica, state: SyncState, incoming: SyncRecord[]): Replica & { state: SyncState } {
+  const { sessions } = replica;
+  const values = sessionValues(sessions);
+  const records = { ...state.records };
+  let clock = state.clock;
+  const touched = new Set<string>();
+  const profiles = new Map<string, Profile | undefined>();
+  const pending = new Set(state.pending);
+  let applied = false;
+
+  for (const rec of incoming) {
+    clock = receive(clock, rec.rev);
+    const mine = records[rec.key];
+    if (mine && mine.rev >= rec.rev) continue;
+    if (isProfileKey(rec.key)) profiles.set(rec.key.slice(2), rec.deleted ? undefined : rec.value as Profile);
+    else {
+      const before = values.get(rec.key);
+      if (before && 'sessionId' in before) touched.add(before.sessionId);
+      if (rec.deleted) values.delete(rec.key);
+      else {
+        const value = rec.value as SessionValue | ConsumptionValue;
+        values.set(rec.key, value);
+        touched.add('sessionId' in value ? value.sessionId : value.id);
+      }
+      if (rec.key.startsWith('s:')) touched.add(rec.key.slice(2));
+    }
+    records[rec.key] = { rev: rec.rev, hash: rec.deleted ? DELETED : hashOf(rec.value) };
+    pending.delete(rec.key);
+    applied = true;
+  }
+  if (!applied) return { ...replica, state: clock === state.clock ? state : { ...state, clock } };
+  const nextState = { ...state, clock, records, pending: [...pending] };
+  const nextProfiles = profiles.size ? mergeProfiles(replica.profiles, profiles) : replica.profiles;
+  if (!touched.size) return { sessions, profiles: nextProfiles, state: nextState };
+
+  // Consumptions whose session is gone are dropped; the next tracking pass tombstones them.
+  const rebuilt = new Map<string, Session>();
+  for (const id of touched) {
+    const value = values.get(sessionKey(id));
+    if (value && !('sessionId' in value)) rebuilt.set(id, { ...value, consumptions: [] });
+  }
+  for (const value of values.values()) {
+    if (!('sessionId' in value)) continue;
+    const s = rebuilt.get(value.sessionId);
+    if (!s) continue;
+    const { sessionId: _omit, ...ev } = value;
+    s.consumptions.push(ev);
+  }
+  // A record that does not make a valid session keeps the local version, which the next
+  // tracking pass stamps again so it wins over the bad one everywhere.
+  for (const [id, s] of rebuilt) {
+    s.consumptions.sort((a, b) => a.timestamp - b.timestamp);
+    if (validateSession(s).length) {
+      const local = sessions.find(x => x.id === id);
+      if (local) rebuilt.set(id, local);
+      else rebuilt.delete(id);
+    }
+  }
+  const next = [...sessions.filter(s => !touched.has(s.id)), ...rebuilt.values()].sort(byTimeAsc);
+  return { sessions: closeExtraActive(next), profiles: nextProfiles, state: nextState };
+}
+
+function isSyncRecord(value: unknown): value is SyncRecord {
+  const r = value as SyncRecord;
+  return !!r && typeof r === 'object' && typeof r.key === 'string' && typeof r.rev === 'string'
+    && (r.deleted === true || (!!r.value && typeof r.value === 'object' && typeof r.value.id === 'string'
+      && (!isProfileKey(r.key) || typeof (r.value as Profile).name === 'string')));
+}
+
+async function request(settings: SyncSettings, path: string, body?: unknown): Promise<unknown> {
+  const res = await fetch(settings.url.replace(/\/+$/, '') + path, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${settings.token}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (res.status === 401) throw new SyncError('The server rejected the sync token');
+  if (!res.ok) throw new SyncError(`The server replied ${res.status} ${res.statusText}`);
+  return res.json();
+}
+
+// The records on a server are encrypted under one key. Its salt and passphrase check are kept
+// on the server next to them (neither is secret); the first device to sync picks the salt.
+// Deriving the key is deliberately slow, so callers keep it.
+export async function openSyncSpace(settings: SyncSettings): Promise<CryptoKey> {
+  let space = (await request(settings, '/space') as { space?: unknown }).space;
+  if (space === null) {
+    // Another device may be setting the space up at the same time; the server keeps the first.
+    const created = await createKey(settings.passphrase);
+    space = (await request(settings, '/space', created.check) as { space?: unknown }).space;
+    if (isKeyCheck(space) && space.salt === created.check.salt) return created.key;
+  }
+  if (!isKeyCheck(space)) throw new SyncError('The server sent an unexpected reply');
+  try {
+    return await unlockKey(space, settings.passphrase);
+  } catch (e) {
+    if (!(e instanceof DecryptError)) throw e;
+    throw new SyncError('The encryption passphrase does not match the one the records on the server are encrypted with');
+  }
+}
+
+async function sealRecord(key: CryptoKey, r: SyncRecord): Promise<unknown> {
+  return r.deleted ? r : { key: r.key, rev: r.rev, value: { sealed: await sealText(key, JSON.stringify(r.value)) } };
+}
+
+// Values that are not sealed (from before sync was encrypted) are ignored. One sealed under
+// another passphrase fails the whole exchange, so nothing is skipped past.
+async function openRecord(key: CryptoKey, raw: unknown): Promise<unknown> {
+  const r = raw as { key?: unknown; rev?: unknown; deleted?: unknown; value?: { sealed?: unknown } } | null;
+  if (!r || typeof r !== 'object' || r.deleted === true) return r;
+  if (!isSealed(r.value?.sealed)) return undefined;
+  try {
+    return { key: r.key, rev: r.rev, value: JSON.parse(await openText(key, r.value.sealed)) };
+  } catch (e) {
+    if (!(e instanceof DecryptError) && !(e instanceof SyntaxError)) throw e;
+    throw new SyncError('Records on the server could not be decrypted. Check that every device uses the same encryption passphrase.');
+  }
+}
+
+// One round trip: sends this device's pending records and receives everything newer than `since`.
+export async function exchange(settings: SyncSettings, key: CryptoKey, deviceId: string, since: number, changes: SyncRecord[]): Promise<{ cursor: number; changes: SyncRecord[] }> {
+  const sealed = await Promise.all(changes.map(r => sealRecord(key, r)));
+  const body = await request(settings, '/sync', { device: deviceId, since, changes: sealed }) as { cursor?: unknown; changes?: unknown };
+  if (typeof body.cursor !== 'number' || !Array.isArray(body.changes)) throw new SyncError('The server sent an unexpected reply');
+  const opened = await Promise.all(body.changes.map(r => openRecord(key, r)));
+  return { cursor: body.cursor, changes: opened.filter(isSyncRecord) };
+}
@@ -0,0 +1,26 @@
+import type { ConsumptionEvent, Session } from './types';
+
+// Minimal sessions and consumptions for the unit tests; override whatever a test cares about.
+export const T0 = Date.UTC(2024, 0, 1, 12);
+export const MIN = 60 * 1000;
+export const HOUR = 60 * MIN;
+
+export function consumption(overrides: Partial<ConsumptionEvent> = {}): ConsumptionEvent {
+  return { id: 'c1', timestamp: T0, weightGrams: 0.5, thcPercent: 20, method: 'Joint', ...overrides };
+}
+
+export function session(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 's1',
+    startTime: T0,
+    endTime: T0 + HOUR,
+    active: false,
+    context: {},
+    social: {},
+    user: {},
+    supplements: [],
+    effects: [],
+    consumptions: [],
+    ...overrides
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { computeTolerance, DEFAULT_TOLERANCE_SETTINGS, forecastBreak, toleranceAt, type ToleranceSettings } from './tolerance';
+import { defaultDoseModel } from './doseModel';
+import { consumption, HOUR, session, T0 } from './testFixtures';
+
+const DAY = 24 * HOUR;
+
+// 1 g at 20% smoked is 50 mg absorbed with the default joint profile.
+const dose = consumption({ weightGrams: 1, thcPercent: 20 });
+const doseMg = defaultDoseModel.absorbedDose(dose, 1) * 1000;
+const history = [session({ consumptions: [dose] })];
+
+function settings(overrides: Partial<ToleranceSettings>): ToleranceSettings {
+  return { ...DEFAULT_TOLERANCE_SETTINGS, ...overrides };
+}
+
+describe('computeTolerance', () => {
+  it('is zero without any consumption', () => {
+    expect(computeTolerance(T0, [])).toBe(0);
+    expect(computeTolerance(T0, [session()])).toBe(0);
+  });
+
+  it('ignores doses after `now`', () => {
+    expect(computeTolerance(T0 - HOUR, history)).toBe(0);
+  });
+
+  it('halves every half-life on the exponential curve', () => {
+    expect(doseMg).toBeCloseTo(50);
+    expect(computeTolerance(T0, history)).toBeCloseTo(doseMg);
+    expect(computeTolerance(T0 + 48 * HOUR, history)).toBeCloseTo(doseMg / 2);
+    expect(computeTolerance(T0 + 96 * HOUR, history)).toBeCloseTo(doseMg / 4);
+  });
+
+  it('adds doses on top of what is left of earlier ones', () => {
+    const twice = [session({ consumptions: [dose, { ...dose, id: 'c2', timestamp: T0 + 48 * HOUR }] })];
+    expect(computeTolerance(T0 + 48 * HOUR, twice)).toBeCloseTo(doseMg * 1.5);
+  });
+
+  it('clears a fixed amount per day on the linear curve, down to zero', () => {
+    const linear = settings({ curve: 'linear' });
+    expect(computeTolerance(T0 + DAY, history, linear)).toBeCloseTo(doseMg - 10);
+    expect(computeTolerance(T0 + 10 * DAY, history, linear)).toBe(0);
+  });
+
+  it('never passes 100% on the receptor curve', () => {
+    const receptor = settings({ curve: 'receptor' });
+    const heavy = [session({ consumptions: Array.from({ length: 20 }, (_, i) => ({ ...dose, id: `c${i}`, timestamp: T0 + i * HOUR })) })];
+    const level = computeTolerance(T0 + 20 * HOUR, heavy, receptor);
+    expect(level).toBeGreaterThan(90);
+    expect(level).toBeLessThan(100);
+  });
+
+  it('agrees with toleranceAt', () => {
+    const times = [T0 + HOUR, T0 + DAY, T0 + 5 * DAY];
+    const levels = toleranceAt(times, history, DEFAULT_TOLERANCE_SETTINGS);
+    times.forEach((t, i) => expect(levels[i]).toBeCloseTo(computeTolerance(t, history)));
+  });
+});
+
+describe('forecastBreak', () => {
+  it('is over at once when already at the target', () => {
+    expect(forecastBreak(0.5, T0, DEFAULT_TOLERANCE_SETTINGS).durationMs).toBe(0);
+  });
+
+  it('takes one half-life per halving on the exponential curve', () => {
+    const forecast = forecastBreak(4, T0, DEFAULT_TOLERANCE_SETTINGS);
+    expect(forecast.durationMs).toBeCloseTo(2 * 48 * HOUR);
+    expect(forecast.reachedAt).toBeCloseTo(T0 + 2 * 48 * HOUR);
+  });
+
+  it('is unreachable for a zero target on a decaying curve', () => {
+    const zero = settings({ exponential: { halfLifeHours: 48, target: 0 } });
+    expect(forecastBreak(4, T0, zero).durationMs).toBe(Infinity);
+  });
+});
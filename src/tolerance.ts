@@ -0,0 +1,152 @@
+import type { Session } from './types';
+import { defaultDoseModel, type DoseModel } from './doseModel';
+
+const HOUR_MS = 3600 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ToleranceCurve = 'exponential' | 'linear' | 'receptor';
+
+export type ToleranceSettings = {
+  curve: ToleranceCurve;
+  exponential: { halfLifeHours: number; target: number };
+  linear: { clearanceMgPerDay: number; target: number };
+  receptor: { sensitivityPerMg: number; recoveryHalfLifeDays: number; target: number };
+};
+
+export const DEFAULT_TOLERANCE_SETTINGS: ToleranceSettings = {
+  curve: 'exponential',
+  exponential: { halfLifeHours: 48, target: 1 },
+  linear: { clearanceMgPerDay: 10, target: 1 },
+  receptor: { sensitivityPerMg: 0.02, recoveryHalfLifeDays: 7, target: 5 }
+};
+
+export const TOLERANCE_CURVE_LABELS: Record<ToleranceCurve, string> = {
+  exponential: 'Exponential (residual THC load)',
+  linear: 'Linear (fixed clearance per day)',
+  receptor: 'Receptor downregulation'
+};
+
+// Each curve is a memoryless state machine, so a history can be folded in one pass.
+type CurveModel = {
+  unit: string;
+  decay(level: number, elapsedMs: number): number;
+  add(level: number, doseMg: number): number;
+  timeToReach(level: number, target: number): number; // ms, Infinity if never
+};
+
+function curveModel(settings: ToleranceSettings): CurveModel {
+  switch (settings.curve) {
+    case 'linear': {
+      const perMs = settings.linear.clearanceMgPerDay / DAY_MS;
+      return {
+        unit: 'mg',
+        decay: (level, dt) => Math.max(0, level - perMs * dt),
+        add: (level, dose) => level + dose,
+        timeToReach: (level, target) => level <= target ? 0 : perMs > 0 ? (level - target) / perMs : Infinity
+      };
+    }
+    case 'receptor': {
+      const { sensitivityPerMg, recoveryHalfLifeDays } = settings.receptor;
+      const mu = Math.log(2) / (recoveryHalfLifeDays * DAY_MS);
+      return {
+        // Percent of receptors downregulated; each dose can only affect the ones still available.
+        unit: '%',
+        decay: (level, dt) => level * Math.exp(-mu * dt),
+        add: (level, dose) => level + (100 - level) * (1 - Math.exp(-sensitivityPerMg * dose)),
+        timeToReach: (level, target) => level <= target ? 0 : target > 0 ? Math.log(level / target) / mu : Infinity
+      };
+    }
+    default: {
+      const lambda = Math.log(2) / (settings.exponential.halfLifeHours * HOUR_MS);
+      return {
+        unit: 'mg',
+        decay: (level, dt) => level * Math.exp(-lambda * dt),
+        add: (level, dose) => level + dose,
+        timeToReach: (level, target) => level <= target ? 0 : target > 0 ? Math.log(level / target) / lambda : Infinity
+      };
+    }
+  }
+}
+
+export function toleranceUnit(settings: ToleranceSettings): string {
+  return curveModel(settings).unit;
+}
+
+export function toleranceTarget(settings: ToleranceSettings): number {
+  return settings[settings.curve].target;
+}
+
+function doseEvents(sessions: Session[], doseModel: DoseModel): { t: number; mg: number }[] {
+  const events: { t: number; mg: number }[] = [];
+  for (const s of sessions) {
+    for (const ev of s.consumptions) events.push({ t: ev.timestamp, mg: doseModel.absorbedDose(ev, s.social.numPeopleSharing) * 1000 });
+  }
+  return events.sort((a, b) => a.t - b.t);
+}
+
+export type TolerancePoint = { t: number; level: number };
+
+// Tolerance just after each dose, plus the level at `now`, in one pass over the history.
+export function toleranceSeries(sessions: Session[], settings: ToleranceSettings, now: number, doseModel: DoseModel = defaultDoseModel): TolerancePoint[] {
+  const model = curveModel(settings);
+  const points: TolerancePoint[] = [];
+  let level = 0;
+  let last: number | undefined;
+  for (const ev of doseEvents(sessions, doseModel)) {
+    if (ev.t > now) break;
+    if (last !== undefined) level = model.decay(level, ev.t - last);
+    level = model.add(level, ev.mg);
+    last = ev.t;
+    points.push({ t: ev.t, level });
+  }
+  if (last !== undefined) points.push({ t: now, level: model.decay(level, now - last) });
+  return points;
+}
+
+// Tolerance at each of `times` (any order), folding the history once alongside the sorted times.
+export function toleranceAt(times: number[], sessions: Session[], settings: ToleranceSettings, doseModel: DoseModel = defaultDoseModel): number[] {
+  const model = curveModel(settings);
+  const events = doseEvents(sessions, doseModel);
+  const order = times.map((t, i) => [t, i] as const).sort((a, b) => a[0] - b[0]);
+  const result = new Array<number>(times.length).fill(0);
+  let level = 0;
+  let last: number | undefined;
+  let e = 0;
+  for (const [t, i] of order) {
+    // Doses at exactly `t` are not counted yet: this is the level just before them.
+    for (; e < events.length && events[e].t < t; e++) {
+      if (last !== undefined) level = model.decay(level, events[e].t - last);
+      level = model.add(level, events[e].mg);
+      last = events[e].t;
+    }
+    result[i] = last === undefined ? 0 : model.decay(level, t - last);
+  }
+  return result;
+}
+
+export function computeTolerance(now: number, sessions: Session[], settings: ToleranceSettings = DEFAULT_TOLERANCE_SETTINGS, doseModel: DoseModel = defaultDoseModel): number {
+  const series = toleranceSeries(sessions, settings, now, doseModel);
+  return series.length ? series[series.length - 1].level : 0;
+}
+
+export type BreakForecast = {
+  level: number;
+  target: number;
+  durationMs: number; // Infinity if the target is unreachable
+  reachedAt: number;
+  projection: TolerancePoint[];
+};
+
+export function forecastBreak(level: number, now: number, settings: ToleranceSettings, points = 24): BreakForecast {
+  const model = curveModel(settings);
+  const target = toleranceTarget(settings);
+  const durationMs = model.timeToReach(level, target);
+  // Project at least a day ahead, and cap unreachable targets at 60 days.
+  const span = Math.max(DAY_MS, Math.min(Number.isFinite(durationMs) ? durationMs * 1.2 : 60 * DAY_MS, 60 * DAY_MS));
+  const projection: TolerancePoint[] = [];
+  for (let i = 0; i <= points; i++) {
+    const dt = (span * i) / points;
+    projection.push({ t: now + dt, level: model.decay(level, dt) });
+  }
+  return { level, target, durationMs, reachedAt: now + durationMs, projection };
+}
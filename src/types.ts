@@ -1,11 +1,40 @@
 export type ConsumptionEvent = {
+  id: string;
   timestamp: number; // ms since epoch
   weightGrams: number; // grams
   thcPercent: number; // 0-100
   method: string; // e.g., joint, vape
+  productId?: string; // inventory product the weight was taken from
+  shares?: Record<string, number>; // profile id -> fraction of this event (0-1); unlisted people split the rest evenly
   notes?: string;
 };
 
+export type Product = {
+  id: string;
+  name: string; // strain or product
+  kind?: string; // e.g., flower, cartridge, edible
+  thcPercent: number; // 0-100
+  cbdPercent?: number; // 0-100
+  terpenes: Record<string, number>; // name -> percent
+  purchaseDate: number;
+  price?: number;
+  initialGrams: number;
+  remainingGrams: number;
+  lowStockGrams?: number;
+  archived?: boolean;
+};
+
+export type EffectCheckIn = {
+  id: string;
+  timestamp: number;
+  consumptionId?: string; // dose the check-in follows up on
+  profileId?: string; // who answered; missing means the session's owner
+  offsetMin?: number; // scheduled offset it answers, e.g. 15, 60, 180
+  intensities: Record<string, number>; // effect -> 0-10
+  mood?: number; // 1-5
+  skipped?: boolean;
+};
+
 export type SessionContext = {
   place?: string;
   weather?: string;
@@ -17,6 +46,7 @@ export type SessionContext = {
 
 export type SocialContext = {
   numPeopleSharing?: number; // includes user
+  participants?: string[]; // profile ids that took part, including the owner
 };
 
 export type UserState = {
@@ -32,25 +62,31 @@ export type GeoLocation = {
 
 export type Session = {
   id: string;
+  profileId?: string; // profile that logged it; missing means the default profile
   startTime: number;
   endTime?: number;
   active: boolean;
+  autoClosed?: boolean; // ended for inactivity, end time not yet confirmed
+  resumedAt?: number; // last time an ended session was picked up again
   geo?: GeoLocation;
   timeOfDay?: 'Morning' | 'Afternoon' | 'Evening' | 'Night';
   baseSubstance?: {
     type?: string;
+    productId?: string;
   };
   context: SessionContext;
   social: SocialContext;
   user: UserState;
   supplements: string[];
   effects: string[];
+  tags?: string[]; // free-form labels, e.g. "weekend", "with Sam"
   notes?: string;
   consumptions: ConsumptionEvent[];
+  checkIns?: EffectCheckIn[];
 };
 
 export type AppData = {
   sessions: Session[];
   createdAt: number;
-  version: 1;
+  version: number;
 };
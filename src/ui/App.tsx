@@ -1,30 +1,85 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import type { Session, ConsumptionEvent } from '../types';
-import { byTimeAsc, computeSessionDose, computeTolerance, downloadJSON, formatDuration, generateId, getTimeOfDay, intervalSincePrevious, loadSessions, saveSessions, toLocalDateTimeInputValue } from '../utils';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Session, ConsumptionEvent, EffectCheckIn, Product, SocialContext } from '../types';
+import { byTimeAsc, downloadJSON, downloadText, formatDuration, generateId, getTimeOfDay, toLocalDateTimeInputValue } from '../utils';
+import { applyRetentionToBackups, CURRENT_VERSION, restoreSnapshot, type Snapshot } from '../storage';
+import { parseImport, type ImportReport } from '../importData';
+import { ImportPanel } from './ImportPanel';
+import { CsvImportPanel } from './CsvImportPanel';
+import { consumptionsCsv, parseCsv, sessionsCsv } from '../csv';
+import { BackupPanel } from './BackupPanel';
+import { SecurityPanel } from './SecurityPanel';
+import { PrivacyPanel } from './PrivacyPanel';
+import { SessionClock } from './SessionClock';
+import { AutoClosePrompt, AutoCloseSettingsPanel } from './AutoClosePanel';
+import { useAutoClose } from './useAutoClose';
+import { ReminderNotices, RemindersPanel } from './RemindersPanel';
+import { useReminders } from './useReminders';
+import { SyncBadge, SyncPanel } from './SyncPanel';
+import { useSync } from './useSync';
+import { CalendarHeatmap } from './CalendarHeatmap';
+import { ReportsPanel } from './ReportsPanel';
+import { Logbook } from './Logbook';
+import { LogbookFilters } from './LogbookFilters';
+import { EMPTY_FILTER, filterSessions, isFilterActive, type LogFilter } from '../logFilter';
+import { VocabularyPanel } from './VocabularyPanel';
+import { EffectOptions, TagInput, TermInput } from './TermInput';
+import { canonicalizeSession, DEFAULT_VOCABULARY, effectsWithValence, parseTags, renameInVocabulary, termUsage, type TermKind } from '../vocabulary';
+import { periodStart, type PeriodKind } from '../reports';
+import { DEFAULT_REMINDERS, type ReminderContext, type ReminderState } from '../reminders';
+import { confirmAutoClose, DEFAULT_AUTO_CLOSE, isStale } from '../sessionLifecycle';
+import { sessionReducer, SessionStoreError, type SessionAction, type SessionDetails } from '../sessionStore';
+import { takeQuickAction } from '../pwa';
+import { DEFAULT_PRIVACY_SETTINGS, redactSessions } from '../privacy';
+import { PasswordPrompt } from './PasswordPrompt';
+import type { LockControls } from './LockGate';
+import type { ProfileControls } from './ProfileGate';
+import { ProfilesPanel } from './ProfilesPanel';
+import { ownerOf, PROFILE_SETTING_KEYS, profileKey, sessionsForProfile } from '../profiles';
+import { deleteMeta, openSessionDb } from '../db';
+import { decryptExport, encryptExport, isEncryptedExport, type EncryptedExport } from '../crypto';
+import { usePersistentSessions } from './usePersistentSessions';
+import { usePersistentValue } from './usePersistentValue';
+import { DoseModelPanel } from './DoseModelPanel';
+import { TolerancePanel } from './TolerancePanel';
+import { GoalsPanel } from './GoalsPanel';
+import { ProgressPanel } from './ProgressPanel';
+import { InventoryPanel } from './InventoryPanel';
+import { EffectInsightsPanel } from './EffectInsightsPanel';
+import { newPastSession, SessionEditor } from './SessionEditor';
+import { CheckInPanel } from './CheckInPanel';
+import { useCheckInSchedule } from './useCheckInSchedule';
+import { effectCurves } from '../checkIns';
+import { adjustStock, deductStock, isLowStock, monthlySpend } from '../inventory';
+import { checkLimits, computeProgress, dailyAdherence, DEFAULT_GOALS } from '../goals';
+import { computeTolerance, DEFAULT_TOLERANCE_SETTINGS, forecastBreak, toleranceSeries, toleranceUnit } from '../tolerance';
+import { computeSessionDose, createMethodDoseModel, DEFAULT_METHOD_PROFILES, sessionEffectCurve } from '../doseModel';
+import dayjs from 'dayjs';
 import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, BarChart, Bar, PieChart, Pie, Cell, Legend } from 'recharts';
 
-const DEFAULT_EFFECTS = [
-  'Relaxed', 'Euphoric', 'Creative', 'Talkative', 'Focused', 'Sleepy', 'Hungry', 'Anxious', 'Paranoid', 'Dry mouth'
-];
+type ExportKind = 'json' | 'sessions' | 'consumptions';
 
 const COLORS = ['#60a5fa','#f87171','#34d399','#fbbf24','#a78bfa','#f472b6','#10b981','#f59e0b','#22d3ee','#c084fc'];
 
-function usePersistentSessions() {
-  const [sessions, setSessions] = useState<Session[]>(() => loadSessions());
-  useEffect(() => { saveSessions(sessions); }, [sessions]);
-  return { sessions, setSessions };
-}
-
-function useGeoOnStart(enabled: boolean, onGeo: (lat: number, lon: number) => void) {
+// Reads the position once per session. The latest callback lives in a ref, so passing
+// an inline function does not re-run the effect on every render.
+function useGeoOnStart(sessionId: string | undefined, enabled: boolean, onGeo: (sessionId: string, lat: number, lon: number) => void) {
+  const callback = useRef(onGeo);
+  callback.current = onGeo;
   useEffect(() => {
-    if (!enabled) return;
+    if (!sessionId || !enabled) return;
     if (!('geolocation' in navigator)) return;
+    let cancelled = false;
     navigator.geolocation.getCurrentPosition(
-      (pos) => onGeo(pos.coords.latitude, pos.coords.longitude),
+      (pos) => { if (!cancelled) callback.current(sessionId, pos.coords.latitude, pos.coords.longitude); },
       () => {},
       { enableHighAccuracy: false, maximumAge: 300000, timeout: 5000 }
     );
-  }, [enabled, onGeo]);
+    return () => { cancelled = true; };
+  }, [sessionId, enabled]);
+}
+
+function formatDateTick(t: number): string {
+  return dayjs(t).format('MMM D');
 }
 
 function SectionTitle({ title, children }: { title: string; children?: React.ReactNode }) {
@@ -36,12 +91,17 @@ function SectionTitle({ title, children }: { title: string; children?: React.Rea
   );
 }
 
-export function App() {
-  const { sessions, setSessions } = usePersistentSessions();
-  const active = sessions.find(s => s.active);
+export function App({ lock, profiles }: { lock: LockControls; profiles: ProfileControls }) {
+  const profile = profiles.active;
+  const { sessions: allSessions, setSessions, ready, error: storageError, notice: storageNotice, setNotice: setStorageNotice, quarantined, snapshotNow } = usePersistentSessions();
+  const sessions = useMemo(() => sessionsForProfile(allSessions, profile.id), [allSessions, profile.id]);
+  // Only the profile's own sessions are its to run; group sessions it joined belong to their owner.
+  const ownSessions = useMemo(() => sessions.filter(s => ownerOf(s) === profile.id), [sessions, profile.id]);
+  const active = ownSessions.find(s => s.active);
 
   const [form, setForm] = useState({
     substanceType: '',
+    productId: '',
     weightGrams: 0,
     thcPercent: 20,
     method: 'Joint',
@@ -50,11 +110,59 @@ export function App() {
     lastMeal: '', mood: '', intention: '',
     supplements: '' as string,
     effects: [] as string[],
+    tags: '',
+    participants: [] as string[], // other profiles taking part
     notes: ''
   });
 
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; report: ImportReport } | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const weightInput = useRef<HTMLInputElement>(null);
+  const [quickAction] = useState(takeQuickAction);
+  const [showBackups, setShowBackups] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [privacy, setPrivacy, privacyReady] = usePersistentValue('privacy', DEFAULT_PRIVACY_SETTINGS);
+  const [autoClose, setAutoClose, autoCloseReady] = usePersistentValue(profileKey(profile.id, 'autoClose'), DEFAULT_AUTO_CLOSE);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showAutoClose, setShowAutoClose] = useState(false);
+  const [reminders, setReminders, remindersReady] = usePersistentValue(profileKey(profile.id, 'reminders'), DEFAULT_REMINDERS);
+  const [reminderState, setReminderState, reminderStateReady] = usePersistentValue<ReminderState>(profileKey(profile.id, 'reminderState'), {});
+  const [showReminders, setShowReminders] = useState(false);
+  const sync = useSync(allSessions, setSessions, profiles.profiles, profiles.onProfilesChange, ready);
+  const [showSync, setShowSync] = useState(false);
+  const [reportPeriod, setReportPeriod] = useState<{ kind: PeriodKind; start: number }>(() => ({ kind: 'week', start: periodStart('week', Date.now()) }));
+  const [logFilter, setLogFilter] = useState<LogFilter>(EMPTY_FILTER);
+  const [vocabulary, setVocabulary] = usePersistentValue('vocabulary', DEFAULT_VOCABULARY);
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const effectNames = useMemo(() => vocabulary.effects.map(e => e.name), [vocabulary]);
+  const negativeEffects = useMemo(() => effectsWithValence(vocabulary, 'negative'), [vocabulary]);
+  const tagSuggestions = useMemo(() => [...new Set([...vocabulary.tags, ...termUsage(sessions, 'tag').map(u => u.term)])], [vocabulary, sessions]);
+  const [encryptExports, setEncryptExports] = useState(false);
+  const [encryptingExport, setEncryptingExport] = useState<ExportKind | null>(null);
+  const [pendingEncrypted, setPendingEncrypted] = useState<{ fileName: string; payload: EncryptedExport } | null>(null);
+  const [methodProfiles, setMethodProfiles] = usePersistentValue(profileKey(profile.id, 'methodProfiles'), DEFAULT_METHOD_PROFILES);
+  const doseModel = useMemo(() => createMethodDoseModel(methodProfiles, profile.id), [methodProfiles, profile.id]);
+  const [showDoseModel, setShowDoseModel] = useState(false);
+  const [toleranceSettings, setToleranceSettings] = usePersistentValue(profileKey(profile.id, 'toleranceSettings'), DEFAULT_TOLERANCE_SETTINGS);
+  const [showTolerance, setShowTolerance] = useState(false);
+  const [goals, setGoals] = usePersistentValue(profileKey(profile.id, 'goals'), DEFAULT_GOALS);
+  const [showGoals, setShowGoals] = useState(false);
+  const [products, setProducts] = usePersistentValue<Product[]>('products', []);
+  const [showInventory, setShowInventory] = useState(false);
+  const [editing, setEditing] = useState<{ session: Session; isNew: boolean } | null>(null);
+  const dueCheckIns = useCheckInSchedule(sessions, profile.id);
+  const [manualCheckIn, setManualCheckIn] = useState(false);
+  const lowStock = products.filter(isLowStock);
+  const selectedProduct = products.find(p => p.id === form.productId);
+
   const now = Date.now();
-  const tolerance = useMemo(() => computeTolerance(now, sessions), [now, sessions]);
+  const tolerance = useMemo(() => computeTolerance(now, sessions, toleranceSettings, doseModel), [now, sessions, toleranceSettings, doseModel]);
+  const toleranceForecast = useMemo(() => forecastBreak(tolerance, now, toleranceSettings), [tolerance, now, toleranceSettings]);
+  const unit = toleranceUnit(toleranceSettings);
+  const adherence = useMemo(() => dailyAdherence(sessions, goals, now, 30, doseModel), [sessions, goals, now, doseModel]);
+  const progress = useMemo(() => computeProgress(sessions, adherence, now), [sessions, adherence, now]);
   const totalSessions = sessions.length;
   const avgDuration = useMemo(() => {
     const durations = sessions.filter(s => s.endTime).map(s => (s.endTime! - s.startTime));
@@ -64,130 +172,392 @@ export function App() {
 
   function updateForm<K extends keyof typeof form>(key: K, value: (typeof form)[K]) { setForm(prev => ({ ...prev, [key]: value })); }
 
-  function startSession() {
-    const id = generateId();
-    const newSession: Session = {
-      id,
-      startTime: Date.now(),
-      active: true,
-      timeOfDay: getTimeOfDay(new Date()),
-      baseSubstance: { type: form.substanceType || 'Unknown' },
+  function selectProduct(id: string) {
+    const product = products.find(p => p.id === id);
+    setForm(prev => product
+      ? { ...prev, productId: id, substanceType: product.name, thcPercent: product.thcPercent }
+      : { ...prev, productId: '' });
+  }
+
+  // Returns false if the logged weight is more than the selected product has left and the user backs out.
+  function confirmStock(ev: ConsumptionEvent): boolean {
+    const product = products.find(p => p.id === ev.productId);
+    if (!product || ev.weightGrams <= product.remainingGrams) return true;
+    return confirm(`Only ${product.remainingGrams.toFixed(2)} g of ${product.name} left in your inventory. Log ${ev.weightGrams} g anyway?`);
+  }
+
+  // Returns false if a goal would be broken and the user backs out.
+  function confirmWithinLimits(ev: ConsumptionEvent, newSession: boolean, sharers: number): boolean {
+    const warnings = checkLimits(sessions, goals, {
+      at: ev.timestamp,
+      newSession,
+      grams: ev.weightGrams * doseModel.shareOf(ev, sharers),
+      doseMg: doseModel.absorbedDose(ev, sharers) * 1000
+    }, doseModel);
+    return !warnings.length || confirm('This would break your goals:\n\n- ' + warnings.join('\n- ') + '\n\nContinue anyway?');
+  }
+
+  // The logging profile is always a participant; the count covers guests without a profile too.
+  function socialFromForm(): SocialContext {
+    const participants = form.participants.length ? [profile.id, ...form.participants] : undefined;
+    return { numPeopleSharing: Math.max(Number(form.numPeopleSharing || 1), participants?.length ?? 1), participants };
+  }
+
+  function detailsFromForm(): SessionDetails {
+    return {
       context: { place: form.place, weather: form.weather, noise: form.noise, light: form.light, music: form.music, activity: form.activity },
-      social: { numPeopleSharing: Number(form.numPeopleSharing || 1) },
+      social: socialFromForm(),
       user: { lastMeal: form.lastMeal, mood: form.mood, intention: form.intention },
       supplements: form.supplements ? form.supplements.split(',').map(s=>s.trim()).filter(Boolean) : [],
       effects: form.effects,
-      notes: form.notes,
-      consumptions: []
+      tags: parseTags(form.tags),
+      notes: form.notes
     };
-    const first: ConsumptionEvent = {
+  }
+
+  function consumptionFromForm(): ConsumptionEvent {
+    return {
+      id: generateId('c'),
       timestamp: Date.now(),
       weightGrams: Number(form.weightGrams || 0),
       thcPercent: Number(form.thcPercent || 0),
       method: form.method,
+      productId: form.productId || undefined,
       notes: undefined
     };
+  }
+
+  // Runs a session action through the store. Returns false, after telling the user, if it is
+  // rejected, e.g. starting a second active session. setSessions applies the update to the
+  // latest log on the spot, so `true` means the change was kept and callers can safely follow
+  // up (e.g. by deducting stock).
+  function dispatch(action: SessionAction): boolean {
+    try {
+      setSessions(prev => sessionReducer(prev, action));
+      return true;
+    } catch (e) {
+      if (!(e instanceof SessionStoreError)) throw e;
+      alert(e.message);
+      return false;
+    }
+  }
+
+  function startSession() {
+    const now = Date.now();
+    const newSession: Session = {
+      id: generateId(),
+      profileId: profile.id,
+      startTime: now,
+      active: true,
+      timeOfDay: getTimeOfDay(new Date(now)),
+      baseSubstance: { type: form.substanceType || 'Unknown', productId: form.productId || undefined },
+      ...detailsFromForm(),
+      consumptions: []
+    };
+    const first = consumptionFromForm();
+    if (!confirmWithinLimits(first, true, newSession.social.numPeopleSharing ?? 1)) return;
+    if (first.weightGrams > 0 && !confirmStock(first)) return;
     if (first.weightGrams > 0) newSession.consumptions.push(first);
-    setSessions(prev => [...prev, newSession].sort(byTimeAsc));
+    if (dispatch({ type: 'start', session: canonicalizeSession(newSession, vocabulary) }) && first.weightGrams > 0) {
+      setProducts(prev => deductStock(prev, first));
+    }
   }
 
-  useGeoOnStart(!!active, (lat, lon) => {
-    // Attach geo to active session when available
-    setSessions(prev => prev.map(s => s.active ? { ...s, geo: { lat, lon } } : s));
+  const needsGeo = !!active && privacy.geo !== 'off' && !(privacy.geo === 'place' ? active.context.place : active.geo);
+  useGeoOnStart(active?.id, needsGeo, (id, lat, lon) => {
+    dispatch({ type: 'locate', sessionId: id, geo: { lat, lon }, privacy });
   });
 
+  // Home-screen shortcuts: start right away, or prefill the last dose so it can be logged with one tap.
+  useEffect(() => {
+    if (!ready || !quickAction) return;
+    if (quickAction === 'start-session' && !active) startSession();
+    if (quickAction === 'add-consumption') {
+      const last = sessions.flatMap(s => s.consumptions).sort((a, b) => b.timestamp - a.timestamp)[0];
+      if (last) setForm(prev => ({ ...prev, weightGrams: last.weightGrams, thcPercent: last.thcPercent, method: last.method, productId: last.productId ?? '' }));
+    }
+    weightInput.current?.focus();
+  }, [ready]);
+
+  useEffect(() => {
+    if (!ready || !privacyReady) return;
+    dispatch({ type: 'applyRetention', retention: privacy.retention, now: Date.now() });
+  }, [ready, privacyReady, allSessions, privacy.retention]);
+
+  // The backups get the same treatment once per launch and whenever the rule changes.
+  useEffect(() => {
+    if (ready && privacyReady) applyRetentionToBackups(privacy.retention, Date.now()).catch(() => {});
+  }, [ready, privacyReady, privacy.retention]);
+
   function addConsumption() {
     if (!active) return;
-    const ev: ConsumptionEvent = {
-      timestamp: Date.now(),
-      weightGrams: Number(form.weightGrams || 0),
-      thcPercent: Number(form.thcPercent || 0),
-      method: form.method,
-      notes: undefined
-    };
-    setSessions(prev => prev.map(s => s.id === active.id ? { ...s, consumptions: [...s.consumptions, ev] } : s));
+    const ev = consumptionFromForm();
+    if (!confirmWithinLimits(ev, false, active.social.numPeopleSharing ?? 1)) return;
+    if (!confirmStock(ev)) return;
+    if (dispatch({ type: 'addConsumption', sessionId: active.id, consumption: ev })) setProducts(prev => deductStock(prev, ev));
   }
 
   function updateContext() {
     if (!active) return;
-    const updated = {
-      context: { place: form.place, weather: form.weather, noise: form.noise, light: form.light, music: form.music, activity: form.activity },
-      social: { numPeopleSharing: Number(form.numPeopleSharing || 1) },
-      user: { lastMeal: form.lastMeal, mood: form.mood, intention: form.intention },
-      supplements: form.supplements ? form.supplements.split(',').map(s=>s.trim()).filter(Boolean) : [],
-      effects: form.effects,
-      notes: form.notes,
-    } as Partial<Session>;
-    setSessions(prev => prev.map(s => s.id === active.id ? { ...s, ...updated } : s));
+    // Canonicalizing needs a whole session; the store only takes the details from it.
+    dispatch({ type: 'updateDetails', sessionId: active.id, details: canonicalizeSession({ ...active, ...detailsFromForm() }, vocabulary) });
   }
 
   function endSession() {
     if (!active) return;
-    setSessions(prev => prev.map(s => s.id === active.id ? { ...s, active: false, endTime: Date.now() } : s));
+    dispatch({ type: 'end', sessionId: active.id, at: Date.now() });
   }
 
+  // Waits for the stored settings too: the defaults could end a session the user wants kept open.
+  useAutoClose(ownSessions, autoClose, profile.id, ready && autoCloseReady, setSessions);
+  const reminderContext = useMemo<ReminderContext>(() => ({
+    sessions,
+    active,
+    goals,
+    toleranceAt: at => computeTolerance(at, sessions, toleranceSettings, doseModel),
+    unit
+  }), [sessions, active, goals, toleranceSettings, doseModel, unit]);
+  const dueReminders = useReminders(reminderContext, reminders, reminderState, setReminderState, ready && remindersReady && reminderStateReady);
+  const autoClosed = useMemo(() => ownSessions.filter(s => s.autoClosed).sort((a, b) => b.startTime - a.startTime)[0], [ownSessions]);
+
   function resumeSession(s: Session) {
+    if (active && active.id !== s.id) {
+      alert('End the active session before resuming another one.');
+      return;
+    }
+    const idle = Date.now() - Math.max(s.endTime ?? 0, s.startTime);
+    if (isStale(s, autoClose, Date.now()) && !confirm(`This session ended ${formatDuration(idle)} ago. Resume it anyway? New consumptions will be added to it.`)) return;
     // Mark as active again, keep original startTime
-    setSessions(prev => prev.map(x => x.id === s.id ? { ...x, active: true, endTime: undefined } : x));
+    dispatch({ type: 'resume', sessionId: s.id, at: Date.now() });
+  }
+
+  function confirmEnd(s: Session, endTime: number) {
+    dispatch({ type: 'confirmEnd', sessionId: s.id, endTime });
+  }
+
+  function submitCheckIn(sessionId: string, checkIn: EffectCheckIn) {
+    dispatch({ type: 'addCheckIn', sessionId, checkIn: { ...checkIn, profileId: profile.id } });
+  }
+
+  function skipCheckIn() {
+    const due = dueCheckIns[0];
+    if (!due) return;
+    submitCheckIn(due.sessionId, { id: generateId('k'), timestamp: Date.now(), consumptionId: due.consumption.id, offsetMin: due.offsetMin, intensities: {}, skipped: true });
+  }
+
+  function saveEdit(edited: Session) {
+    // Editing an auto-ended session settles its end time.
+    if (edited.autoClosed && edited.endTime !== undefined) edited = confirmAutoClose(edited, edited.endTime);
+    const before = allSessions.find(s => s.id === edited.id)?.consumptions ?? [];
+    if (!dispatch({ type: 'save', session: canonicalizeSession(edited, vocabulary) })) return;
+    setProducts(prev => adjustStock(prev, before, edited.consumptions));
+    setEditing(null);
+  }
+
+  // Rewrites the sessions and the vocabulary together. A renamed method keeps its dose profile.
+  function renameTerm(kind: TermKind, from: string[], to: string) {
+    dispatch({ type: 'renameTerm', kind, from, to });
+    setVocabulary(prev => renameInVocabulary(prev, kind, from, to));
+    if (kind === 'method') {
+      setMethodProfiles(prev => {
+        const carried = from.find(f => prev[f]);
+        return prev[to] || !carried ? prev : { ...prev, [to]: prev[carried] };
+      });
+      setForm(prev => from.includes(prev.method) ? { ...prev, method: to } : prev);
+    }
+    if (kind === 'effect') setForm(prev => ({ ...prev, effects: [...new Set(prev.effects.map(e => from.includes(e) ? to : e))] }));
+  }
+
+  function saveProfiles(next: typeof profiles.profiles, removed: string[]) {
+    profiles.onProfilesChange(next);
+    if (removed.length) {
+      for (const profileId of removed) dispatch({ type: 'removeProfile', profileId });
+      openSessionDb().then(db => deleteMeta(db, removed.flatMap(id => PROFILE_SETTING_KEYS.map(k => profileKey(id, k))))).catch(() => {});
+    }
+    setShowProfiles(false);
   }
 
   function deleteSession(id: string) {
     if (!confirm('Delete this session?')) return;
-    setSessions(prev => prev.filter(s => s.id !== id));
+    dispatch({ type: 'delete', sessionId: id });
   }
 
-  function exportAll() {
-    downloadJSON('weed_sessions.json', { sessions, exportedAt: new Date().toISOString(), version: 1 });
+  function exportData() {
+    return { sessions: redactSessions(sessions, privacy.exportRedaction), products, exportedAt: new Date().toISOString(), version: CURRENT_VERSION };
   }
 
-  // Charts data
-  const sorted = [...sessions].sort(byTimeAsc);
-  const chartTolerance = useMemo(() => {
-    let points: { t: number; v: number }[] = [];
-    const accum: Session[] = [];
-    for (const s of sorted) {
-      accum.push(s);
-      const t = s.endTime ?? s.startTime;
-      const v = computeTolerance(t, accum);
-      points.push({ t, v: Math.round(v * 10) / 10 });
+  function exportFile(kind: ExportKind): { name: string; text: string; type: string } {
+    if (kind === 'json') return { name: 'weed_sessions.json', text: JSON.stringify(exportData(), null, 2), type: 'application/json' };
+    const opts = { doseModel, toleranceSettings, products };
+    const redacted = redactSessions(sessions, privacy.exportRedaction);
+    const csv = kind === 'sessions' ? sessionsCsv(redacted, opts) : consumptionsCsv(redacted, opts);
+    return { name: `weed_${kind}.csv`, text: csv, type: 'text/csv' };
+  }
+
+  function exportAs(kind: ExportKind) {
+    if (encryptExports) return setEncryptingExport(kind);
+    const { name, text, type } = exportFile(kind);
+    downloadText(name, text, type);
+  }
+
+  async function exportEncrypted(password: string) {
+    if (!encryptingExport) return;
+    const { name, text } = exportFile(encryptingExport);
+    const content = encryptingExport === 'json' ? 'json' : 'csv';
+    downloadJSON(name.replace(/\.(json|csv)$/, '.encrypted.json'), await encryptExport(text, password, content));
+    setEncryptingExport(null);
+  }
+
+  async function decryptImport(password: string) {
+    if (!pendingEncrypted) return;
+    const text = await decryptExport(pendingEncrypted.payload, password);
+    if (pendingEncrypted.payload.content === 'csv') setPendingCsv({ fileName: pendingEncrypted.fileName, rows: parseCsv(text) });
+    else setPendingImport({ fileName: pendingEncrypted.fileName, report: parseImport(text) });
+    setPendingEncrypted(null);
+  }
+
+  function parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
     }
-    return points.map(p => ({ time: new Date(p.t).toLocaleString(), tolerance: p.v }));
-  }, [sorted]);
+  }
+
+  async function readImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const json = parseJson(text);
+    if (/\.(csv|tsv|txt)$/i.test(file.name) || file.type === 'text/csv') setPendingCsv({ fileName: file.name, rows: parseCsv(text) });
+    else if (isEncryptedExport(json)) setPendingEncrypted({ fileName: file.name, payload: json });
+    else setPendingImport({ fileName: file.name, report: parseImport(text) });
+  }
+
+  async function restoreBackup(snap: Snapshot) {
+    if (!confirm(`Restore ${snap.data.sessions.length} sessions from ${new Date(snap.takenAt).toLocaleString()}? Current data is kept as a snapshot.`)) return;
+    await snapshotNow();
+    dispatch({ type: 'restore', sessions: (await restoreSnapshot(snap.takenAt)).sessions });
+    setShowBackups(false);
+  }
+
+  // `next` is this profile's merged or replaced log. Sessions from unknown profiles, such as
+  // another device's, are taken over by this one.
+  function applyImport(next: Session[], importedProducts?: Product[]) {
+    const known = (id?: string) => profiles.profiles.some(p => p.id === id);
+    const incoming = next.map(s => known(s.profileId) ? s : { ...s, profileId: profile.id });
+    if (!dispatch({ type: 'import', profileId: profile.id, sessions: incoming })) return;
+    if (importedProducts) setProducts(importedProducts);
+    setPendingImport(null);
+  }
+
+  // Charts data. Tolerance always uses the full history; the other analytics follow the logbook filter.
+  const sorted = useMemo(() => [...sessions].sort(byTimeAsc), [sessions]);
+  const filtered = useMemo(() => filterSessions(sorted, logFilter), [sorted, logFilter]);
+  const filterActive = isFilterActive(logFilter);
+  const chartTolerance = useMemo(() => {
+    const history = toleranceSeries(sorted, toleranceSettings, now, doseModel)
+      .map(p => ({ t: p.t, tolerance: Math.round(p.level * 10) / 10 } as { t: number; tolerance?: number; projected?: number }));
+    if (!history.length) return history;
+    // The projection starts at the last historical point so the two lines join up.
+    history[history.length - 1].projected = history[history.length - 1].tolerance;
+    const projection = toleranceForecast.projection.slice(1).map(p => ({ t: p.t, projected: Math.round(p.level * 10) / 10 }));
+    return [...history, ...projection];
+  }, [sorted, toleranceSettings, now, doseModel, toleranceForecast]);
 
   const chartConsumption = useMemo(() => {
-    return sorted.map(s => ({
-      time: new Date(s.startTime).toLocaleString(),
-      dose: Math.round(computeSessionDose(s) * 1000) / 1000
+    return filtered.map(s => ({
+      time: s.startTime,
+      dose: Math.round(computeSessionDose(s, doseModel) * 1000) / 1000
     }));
-  }, [sorted]);
+  }, [filtered, doseModel]);
+
+  const chartCheckInCurves = useMemo(() => effectCurves(filtered, profile.id), [filtered, profile.id]);
+
+  const curveSession = (active && filtered.includes(active) ? active : undefined) ?? [...filtered].reverse().find(s => s.consumptions.length);
+  const chartEffectCurve = useMemo(() => curveSession ? sessionEffectCurve(curveSession, doseModel) : [], [curveSession, doseModel]);
 
   const chartTimeOfDay = useMemo(() => {
     const counts: Record<string, number> = { Morning: 0, Afternoon: 0, Evening: 0, Night: 0 };
-    for (const s of sorted) {
+    for (const s of filtered) {
       const t = s.timeOfDay ?? getTimeOfDay(new Date(s.startTime));
       counts[t]++;
     }
     return Object.entries(counts).map(([name, value]) => ({ name, value }));
-  }, [sorted]);
+  }, [filtered]);
 
   const chartEffects = useMemo(() => {
     const counts: Record<string, number> = {};
-    for (const s of sorted) {
+    for (const s of filtered) {
       for (const e of s.effects) counts[e] = (counts[e] ?? 0) + 1;
     }
     return Object.entries(counts).map(([name, value]) => ({ name, value }));
-  }, [sorted]);
+  }, [filtered]);
+
+  // The inventory is shared, so spend covers everyone's sessions.
+  const spend = useMemo(() => monthlySpend(allSessions, products), [allSessions, products]);
 
-  const activeDuration = active ? Date.now() - active.startTime : 0;
+  if (!ready) {
+    return (
+      <div className="container">
+        <h1>Weed Session Manager</h1>
+        <div className={storageError ? 'card notice' : 'help'}>{storageError || 'Loading sessions…'}</div>
+      </div>
+    );
+  }
 
   return (
     <div className="container">
-      <h1>Weed Session Manager</h1>
+      <div className="section-title">
+        <h1>Weed Session Manager</h1>
+        <div className="toolbar">
+          {profiles.profiles.length > 1 && (
+            <select value={profile.id} onChange={e => profiles.switchTo(e.target.value)} aria-label="Profile" style={{ width: 'auto' }}>
+              {profiles.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          )}
+          <SyncBadge status={sync.status} onClick={() => setShowSync(true)} />
+          <button className="ghost" onClick={() => setShowProfiles(v => !v)}>Profiles</button>
+          {lock.config && <button className="ghost" onClick={lock.lockNow}>Lock</button>}
+        </div>
+      </div>
+
+      {showProfiles && (
+        <ProfilesPanel
+          profiles={profiles.profiles}
+          activeId={profile.id}
+          sessions={allSessions}
+          onSave={saveProfiles}
+          onSwitch={profiles.switchTo}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+
+      {storageNotice && (
+        <div className="card notice">
+          <span>{storageNotice}</span>
+          <div className="toolbar">
+            {quarantined && <button className="ghost" onClick={() => setShowBackups(true)}>View</button>}
+            <button className="ghost" onClick={() => setStorageNotice('')}>Dismiss</button>
+          </div>
+        </div>
+      )}
 
       <div className="kpi">
         <div className="item"><div className="label">Total Sessions</div><div className="value">{totalSessions}</div></div>
         <div className="item"><div className="label">Avg Duration</div><div className="value">{formatDuration(avgDuration)}</div></div>
-        <div className="item"><div className="label">Current Tolerance</div><div className="value">{tolerance}</div></div>
+        <div className="item">
+          <div className="label">Current Tolerance</div>
+          <div className="value">{tolerance.toFixed(1)} {unit}</div>
+          <div className="help">
+            {toleranceForecast.durationMs === 0
+              ? `At or below break target (${toleranceForecast.target} ${unit})`
+              : Number.isFinite(toleranceForecast.durationMs)
+                ? `Break to ${toleranceForecast.target} ${unit}: ${(toleranceForecast.durationMs / 86400000).toFixed(1)} days (${new Date(toleranceForecast.reachedAt).toLocaleDateString()})`
+                : 'Break target is unreachable with these settings'}
+          </div>
+        </div>
       </div>
 
       <hr className="sep" />
@@ -197,41 +567,193 @@ export function App() {
           <>
             <button onClick={addConsumption}>Add Consumption</button>
             <button className="secondary" onClick={updateContext}>Update Session</button>
+            <button className="secondary" onClick={() => setManualCheckIn(true)}>Check In</button>
             <button className="danger" onClick={endSession}>End Session</button>
           </>
         ) : (
           <>
             <button onClick={startSession}>Start Session</button>
-            <button className="ghost" onClick={exportAll}>Export JSON</button>
+            <button className="ghost" onClick={() => exportAs('json')}>Export JSON</button>
+            <button className="ghost" onClick={() => exportAs('sessions')}>Sessions CSV</button>
+            <button className="ghost" onClick={() => exportAs('consumptions')}>Consumptions CSV</button>
+            <label><input type="checkbox" style={{ width: 'auto' }} checked={encryptExports} onChange={e => setEncryptExports(e.target.checked)} /> Encrypt exports</label>
+            <button className="ghost" onClick={() => importInput.current?.click()}>Import JSON/CSV</button>
+            <button className="ghost" onClick={() => setShowBackups(v => !v)}>Backups</button>
+            <button className="ghost" onClick={() => setShowSecurity(v => !v)}>Passcode</button>
+            <button className="ghost" onClick={() => setShowPrivacy(v => !v)}>Privacy</button>
+            <button className="ghost" onClick={() => setShowAutoClose(v => !v)}>Auto-end</button>
+            <button className="ghost" onClick={() => setShowReminders(v => !v)}>Reminders</button>
+            <button className="ghost" onClick={() => setShowSync(v => !v)}>Sync</button>
+            <button className="ghost" onClick={() => setShowVocabulary(v => !v)}>Vocabulary</button>
+            <input ref={importInput} type="file" accept="application/json,.json,text/csv,.csv,.tsv,.txt" style={{ display: 'none' }} onChange={readImportFile} />
           </>
         )}
       </SectionTitle>
 
+      {showBackups && <BackupPanel onRestore={restoreBackup} onClose={() => setShowBackups(false)} />}
+
+      {showSecurity && <SecurityPanel config={lock.config} onChange={lock.onConfigChange} onLock={lock.lockNow} onClose={() => setShowSecurity(false)} />}
+
+      {showAutoClose && (
+        <AutoCloseSettingsPanel
+          settings={autoClose}
+          onSave={a => { setAutoClose(a); setShowAutoClose(false); }}
+          onClose={() => setShowAutoClose(false)}
+        />
+      )}
+
+      {showSync && (
+        <SyncPanel
+          settings={sync.settings}
+          status={sync.status}
+          onSave={next => {
+            // A different server has not seen this device's records yet.
+            if (next.url !== sync.settings.url) sync.resend();
+            sync.setSettings(next);
+          }}
+          onSyncNow={sync.syncNow}
+          onResend={sync.resend}
+          onClose={() => setShowSync(false)}
+        />
+      )}
+
+      {showReminders && (
+        <RemindersPanel
+          settings={reminders}
+          onSave={r => { setReminders(r); setShowReminders(false); }}
+          onClose={() => setShowReminders(false)}
+        />
+      )}
+
+      <ReminderNotices
+        due={dueReminders.due}
+        ctx={reminderContext}
+        snoozeMinutes={reminders.snoozeMinutes}
+        onSnooze={dueReminders.snooze}
+        onDismiss={dueReminders.dismiss}
+        onEndSession={endSession}
+      />
+
+      {autoClosed && (
+        <AutoClosePrompt
+          key={autoClosed.id}
+          session={autoClosed}
+          settings={autoClose}
+          onConfirm={end => confirmEnd(autoClosed, end)}
+          onResume={() => resumeSession(autoClosed)}
+        />
+      )}
+
+      {showVocabulary && (
+        <VocabularyPanel
+          vocabulary={vocabulary}
+          sessions={sessions}
+          onChange={setVocabulary}
+          onRename={renameTerm}
+          onClose={() => setShowVocabulary(false)}
+        />
+      )}
+
+      {showPrivacy && (
+        <PrivacyPanel
+          settings={privacy}
+          sessions={allSessions}
+          onSave={p => { setPrivacy(p); setShowPrivacy(false); }}
+          onClose={() => setShowPrivacy(false)}
+        />
+      )}
+
+      {encryptingExport && (
+        <PasswordPrompt
+          title={`Encrypted ${encryptingExport === 'json' ? 'JSON' : encryptingExport === 'sessions' ? 'Sessions CSV' : 'Consumptions CSV'} Export`}
+          help="The export is encrypted with this password, which can differ from your passcode. It is needed to import the file again."
+          submitLabel="Export"
+          confirmPassword
+          onSubmit={exportEncrypted}
+          onCancel={() => setEncryptingExport(null)}
+        />
+      )}
+
+      {pendingEncrypted && (
+        <PasswordPrompt
+          title={`Import ${pendingEncrypted.fileName}`}
+          help="This export is encrypted. Enter the password it was exported with."
+          submitLabel="Decrypt"
+          onSubmit={decryptImport}
+          onCancel={() => setPendingEncrypted(null)}
+        />
+      )}
+
+      {pendingCsv && (
+        <CsvImportPanel
+          fileName={pendingCsv.fileName}
+          rows={pendingCsv.rows}
+          onContinue={report => { setPendingImport({ fileName: pendingCsv.fileName, report }); setPendingCsv(null); }}
+          onCancel={() => setPendingCsv(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPanel
+          fileName={pendingImport.fileName}
+          report={pendingImport.report}
+          sessions={sessions}
+          replaced={ownSessions.length}
+          products={products}
+          onApply={applyImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {active && (
-        <div className="help">Active for {formatDuration(activeDuration)}{active.geo ? ` ? geo(${active.geo.lat.toFixed(3)}, ${active.geo.lon.toFixed(3)})` : ''} ? {active.timeOfDay}</div>
+        <div className="help">Active for <SessionClock since={active.startTime} inTitle />{active.geo ? ` ? geo(${active.geo.lat.toFixed(3)}, ${active.geo.lon.toFixed(3)})` : ''} ? {active.timeOfDay}</div>
+      )}
+
+      {dueCheckIns.length > 0 ? (
+        <CheckInPanel
+          key={`${dueCheckIns[0].consumption.id}-${dueCheckIns[0].offsetMin}`}
+          due={dueCheckIns[0]}
+          pending={dueCheckIns.length}
+          effects={effectNames}
+          onSubmit={c => submitCheckIn(dueCheckIns[0].sessionId, c)}
+          onSkip={skipCheckIn}
+        />
+      ) : manualCheckIn && active && (
+        <CheckInPanel
+          pending={0}
+          effects={effectNames}
+          onSubmit={c => { submitCheckIn(active.id, c); setManualCheckIn(false); }}
+          onClose={() => setManualCheckIn(false)}
+        />
       )}
 
       <div className="grid grid-3">
         <div className="card">
-          <h3>Substance & Consumption</h3>
+          <div className="section-title">
+            <h3>Substance & Consumption</h3>
+            <button className="ghost" onClick={() => setShowInventory(v => !v)}>Inventory</button>
+          </div>
+          <label>Product
+            <select value={form.productId} onChange={e=>selectProduct(e.target.value)}>
+              <option value="">— Not from inventory —</option>
+              {products.filter(p => !p.archived).map(p => (
+                <option key={p.id} value={p.id}>{p.name} ({p.remainingGrams.toFixed(2)} g left)</option>
+              ))}
+            </select>
+          </label>
+          {selectedProduct && isLowStock(selectedProduct) && <div className="help error">Running low on {selectedProduct.name}</div>}
           <label>Type
             <input value={form.substanceType} onChange={e=>updateForm('substanceType', e.target.value)} placeholder="Strain or Product" />
           </label>
           <label>Weight (g)
-            <input type="number" min="0" step="0.01" value={form.weightGrams} onChange={e=>updateForm('weightGrams', Number(e.target.value))} />
+            <input ref={weightInput} type="number" min="0" step="0.01" value={form.weightGrams} onChange={e=>updateForm('weightGrams', Number(e.target.value))} />
           </label>
           <label>THC (%)
             <input type="number" min="0" max="100" step="0.1" value={form.thcPercent} onChange={e=>updateForm('thcPercent', Number(e.target.value))} />
           </label>
           <label>Method
             <select value={form.method} onChange={e=>updateForm('method', e.target.value)}>
-              <option>Joint</option>
-              <option>Pipe</option>
-              <option>Bong</option>
-              <option>Vape</option>
-              <option>Edible</option>
-              <option>Tincture</option>
-              <option>Dab</option>
+              {[...new Set([...vocabulary.methods, form.method])].map(m => <option key={m}>{m}</option>)}
             </select>
           </label>
         </div>
@@ -239,16 +761,29 @@ export function App() {
         <div className="card">
           <h3>Environment & Social</h3>
           <div className="grid grid-2">
-            <label>Place<input value={form.place} onChange={e=>updateForm('place', e.target.value)} placeholder="Home, Park, etc." /></label>
-            <label>Weather<input value={form.weather} onChange={e=>updateForm('weather', e.target.value)} placeholder="Sunny, Cloudy" /></label>
-            <label>Noise<input value={form.noise} onChange={e=>updateForm('noise', e.target.value)} placeholder="Quiet, Loud" /></label>
-            <label>Light<input value={form.light} onChange={e=>updateForm('light', e.target.value)} placeholder="Dim, Bright" /></label>
-            <label>Music<input value={form.music} onChange={e=>updateForm('music', e.target.value)} placeholder="Genre/Playlist" /></label>
-            <label>Activity<input value={form.activity} onChange={e=>updateForm('activity', e.target.value)} placeholder="Movie, Walk" /></label>
+            <label>Place<TermInput value={form.place} terms={vocabulary.context.place} onChange={v=>updateForm('place', v)} placeholder="Home, Park, etc." /></label>
+            <label>Weather<TermInput value={form.weather} terms={vocabulary.context.weather} onChange={v=>updateForm('weather', v)} placeholder="Sunny, Cloudy" /></label>
+            <label>Noise<TermInput value={form.noise} terms={vocabulary.context.noise} onChange={v=>updateForm('noise', v)} placeholder="Quiet, Loud" /></label>
+            <label>Light<TermInput value={form.light} terms={vocabulary.context.light} onChange={v=>updateForm('light', v)} placeholder="Dim, Bright" /></label>
+            <label>Music<TermInput value={form.music} terms={vocabulary.context.music} onChange={v=>updateForm('music', v)} placeholder="Genre/Playlist" /></label>
+            <label>Activity<TermInput value={form.activity} terms={vocabulary.context.activity} onChange={v=>updateForm('activity', v)} placeholder="Movie, Walk" /></label>
           </div>
           <label>People Sharing
             <input type="number" min="1" step="1" value={form.numPeopleSharing} onChange={e=>updateForm('numPeopleSharing', Number(e.target.value))} />
           </label>
+          {profiles.profiles.length > 1 && (
+            <div>
+              <div className="help">Profiles taking part</div>
+              <div className="toolbar">
+                {profiles.profiles.filter(p => p.id !== profile.id).map(p => (
+                  <label key={p.id}>
+                    <input type="checkbox" style={{ width: 'auto' }} checked={form.participants.includes(p.id)}
+                      onChange={e => updateForm('participants', e.target.checked ? [...form.participants, p.id] : form.participants.filter(x => x !== p.id))} /> {p.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="card">
@@ -266,31 +801,100 @@ export function App() {
               const opts = Array.from(e.target.selectedOptions).map(o=>o.value);
               updateForm('effects', opts);
             }}>
-              {DEFAULT_EFFECTS.map(e => <option key={e} value={e}>{e}</option>)}
+              <EffectOptions effects={vocabulary.effects} selected={form.effects} />
             </select>
           </label>
+          <label>Tags (comma separated)
+            <TagInput value={form.tags} tags={tagSuggestions} onChange={v=>updateForm('tags', v)} placeholder="Weekend, After work" />
+          </label>
           <label>Notes
             <textarea value={form.notes} onChange={e=>updateForm('notes', e.target.value)} placeholder="Observations" />
           </label>
         </div>
       </div>
 
+      {showInventory && (
+        <InventoryPanel products={products} spend={spend} onChange={setProducts} onClose={() => setShowInventory(false)} />
+      )}
+
+      {lowStock.length > 0 && !showInventory && (
+        <div className="help error" style={{ marginTop: 8 }}>Low stock: {lowStock.map(p => `${p.name} (${p.remainingGrams.toFixed(2)} g)`).join(', ')}</div>
+      )}
+
+      <hr className="sep" />
+
+      <SectionTitle title="Goals & Progress">
+        <button className="ghost" onClick={() => setShowGoals(v => !v)}>Edit Goals</button>
+      </SectionTitle>
+
+      {showGoals && (
+        <GoalsPanel
+          goals={goals}
+          onSave={g => { setGoals(g); setShowGoals(false); }}
+          onClose={() => setShowGoals(false)}
+        />
+      )}
+
+      <ProgressPanel goals={goals} progress={progress} adherence={adherence} now={now} />
+
+      <hr className="sep" />
+
+      <SectionTitle title="History" />
+      <div className="grid grid-2">
+        <CalendarHeatmap sessions={sessions} doseModel={doseModel} onSelectDay={t => setReportPeriod({ kind: 'week', start: periodStart('week', t) })} />
+        <ReportsPanel
+          sessions={sessions}
+          products={products}
+          doseModel={doseModel}
+          kind={reportPeriod.kind}
+          start={reportPeriod.start}
+          onChange={(kind, start) => setReportPeriod({ kind, start })}
+        />
+      </div>
+
       <hr className="sep" />
 
       <SectionTitle title="Analytics">
-        <span className="help">Dose units are grams THC-equivalent per person</span>
+        <span className="help">Dose is absorbed THC in grams per person, adjusted for method</span>
+        <button className="ghost" onClick={() => setShowDoseModel(v => !v)}>Dose Model</button>
+        <button className="ghost" onClick={() => setShowTolerance(v => !v)}>Tolerance Model</button>
       </SectionTitle>
 
+      {filterActive && (
+        <div className="card notice">
+          <div>Showing {filtered.length} of {sessions.length} sessions matching the logbook filters. Tolerance always uses the full history.</div>
+          <button className="ghost" onClick={() => setLogFilter(EMPTY_FILTER)}>Clear Filters</button>
+        </div>
+      )}
+
+      {showTolerance && (
+        <TolerancePanel
+          settings={toleranceSettings}
+          onSave={t => { setToleranceSettings(t); setShowTolerance(false); }}
+          onClose={() => setShowTolerance(false)}
+        />
+      )}
+
+      {showDoseModel && (
+        <DoseModelPanel
+          profiles={methodProfiles}
+          methods={vocabulary.methods}
+          onSave={p => { setMethodProfiles(p); setShowDoseModel(false); }}
+          onClose={() => setShowDoseModel(false)}
+        />
+      )}
+
       <div className="grid grid-3">
         <div className="card">
           <h3>Tolerance Over Time</h3>
           <div style={{ height: 240 }}>
             <ResponsiveContainer width="100%" height="100%">
               <LineChart data={chartTolerance} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
-                <XAxis dataKey="time" hide/>
+                <XAxis dataKey="t" type="number" scale="time" domain={['dataMin', 'dataMax']} stroke="#93a4b5" tickFormatter={formatDateTick}/>
                 <YAxis width={40} stroke="#93a4b5"/>
-                <Tooltip/>
+                <Tooltip labelFormatter={t => new Date(t as number).toLocaleString()} formatter={(v: number) => `${v} ${unit}`}/>
                 <Line type="monotone" dataKey="tolerance" stroke="#60a5fa" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="projected" stroke="#60a5fa" strokeDasharray="4 4" strokeWidth={2} dot={false} />
               </LineChart>
             </ResponsiveContainer>
           </div>
@@ -301,9 +905,9 @@ export function App() {
           <div style={{ height: 240 }}>
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={chartConsumption} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
-                <XAxis dataKey="time" hide/>
+                <XAxis dataKey="time" stroke="#93a4b5" tickFormatter={formatDateTick} minTickGap={24}/>
                 <YAxis width={40} stroke="#93a4b5"/>
-                <Tooltip/>
+                <Tooltip labelFormatter={t => new Date(t as number).toLocaleString()}/>
                 <Bar dataKey="dose" fill="#34d399" />
               </BarChart>
             </ResponsiveContainer>
@@ -328,6 +932,41 @@ export function App() {
         </div>
       </div>
 
+      <div className="card" style={{ marginTop: 16 }}>
+        <h3>Effect Curve{curveSession ? ` – ${active ? 'active session' : new Date(curveSession.startTime).toLocaleString()}` : ''}</h3>
+        <div style={{ height: 220 }}>
+          {chartEffectCurve.length ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartEffectCurve} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+                <XAxis dataKey="minute" stroke="#93a4b5" unit="m"/>
+                <YAxis width={40} stroke="#93a4b5"/>
+                <Tooltip/>
+                <Line type="monotone" dataKey="effect" stroke="#f472b6" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          ) : <div className="help">Log a consumption to see its modelled effect over time.</div>}
+        </div>
+      </div>
+
+      <div className="card" style={{ marginTop: 16 }}>
+        <h3>Reported Effects by Time Since Dose</h3>
+        <div style={{ height: 240 }}>
+          {chartCheckInCurves.points.length ? (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartCheckInCurves.points} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+                <XAxis dataKey="minute" stroke="#93a4b5" unit="m"/>
+                <YAxis width={40} stroke="#93a4b5" domain={[0, 10]}/>
+                <Tooltip/>
+                <Legend/>
+                {chartCheckInCurves.effects.slice(0, 5).map((e, i) => (
+                  <Line key={e} type="monotone" dataKey={e} stroke={COLORS[i % COLORS.length]} strokeWidth={2} connectNulls />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          ) : <div className="help">Answer check-ins after a dose to see how effects rise and fade.</div>}
+        </div>
+      </div>
+
       <div className="card" style={{ marginTop: 16 }}>
         <h3>Effects Frequency</h3>
         <div style={{ height: 260 }}>
@@ -342,56 +981,41 @@ export function App() {
         </div>
       </div>
 
+      <EffectInsightsPanel sessions={filtered} products={products} doseModel={doseModel} negativeEffects={negativeEffects} />
+
       <hr className="sep" />
 
-      <SectionTitle title="Logbook"/>
-      <div className="card">
-        <table className="table">
-          <thead>
-            <tr>
-              <th>Start</th>
-              <th>Duration</th>
-              <th>Time of Day</th>
-              <th>Dose</th>
-              <th>People</th>
-              <th>Effects</th>
-              <th>Actions</th>
-            </tr>
-          </thead>
-          <tbody>
-            {sorted.length === 0 && (
-              <tr><td colSpan={7} className="help">No sessions yet. Start one above.</td></tr>
-            )}
-            {sorted.map((s, idx) => {
-              const duration = (s.endTime ?? Date.now()) - s.startTime;
-              const gap = intervalSincePrevious(sorted, idx);
-              return (
-                <tr key={s.id}>
-                  <td>
-                    <div>{new Date(s.startTime).toLocaleString()}</div>
-                    <div className="help">{gap !== undefined ? `+${formatDuration(gap)} since prev` : ''}</div>
-                  </td>
-                  <td>{s.active ? <span className="badge">Active {formatDuration(Date.now()-s.startTime)}</span> : formatDuration(duration)}</td>
-                  <td>{s.timeOfDay}</td>
-                  <td>{(Math.round(computeSessionDose(s)*1000)/1000).toFixed(3)}</td>
-                  <td>{s.social.numPeopleSharing ?? 1}</td>
-                  <td>{s.effects.join(', ')}</td>
-                  <td>
-                    <div className="toolbar">
-                      {s.active ? (
-                        <button className="secondary" onClick={()=>endSession()}>End</button>
-                      ) : (
-                        <button onClick={()=>resumeSession(s)}>Resume</button>
-                      )}
-                      <button className="danger" onClick={()=>deleteSession(s.id)}>Delete</button>
-                    </div>
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+      <SectionTitle title="Logbook">
+        <button className="ghost" onClick={() => setEditing({ session: { ...newPastSession(), profileId: profile.id }, isNew: true })}>Add Past Session</button>
+      </SectionTitle>
+
+      {editing && (
+        <SessionEditor
+          key={editing.session.id}
+          session={editing.session}
+          sessions={sessions}
+          products={products}
+          vocabulary={vocabulary}
+          tags={tagSuggestions}
+          profiles={profiles.profiles}
+          isNew={editing.isNew}
+          onSave={saveEdit}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+      <LogbookFilters sessions={sessions} products={products} filter={logFilter} onChange={setLogFilter} matched={filtered.length} />
+      <Logbook
+        sessions={filtered}
+        filter={logFilter}
+        chronology={sorted}
+        products={products}
+        doseModel={doseModel}
+        onEnd={() => endSession()}
+        onResume={resumeSession}
+        onEdit={s => setEditing({ session: s, isNew: false })}
+        onDelete={deleteSession}
+        profiles={profiles.profiles}
+      />
     </div>
   );
 }
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import dayjs from 'dayjs';
+import type { Session } from '../types';
+import { lastActivityAt, type AutoCloseSettings } from '../sessionLifecycle';
+import { formatDuration, toLocalDateTimeInputValue } from '../utils';
+
+// Shown for a session that was ended for inactivity, so the guessed end time can be confirmed or corrected.
+export function AutoClosePrompt({ session, settings, onConfirm, onResume }: {
+  session: Session;
+  settings: AutoCloseSettings;
+  onConfirm: (endTime: number) => void;
+  onResume: () => void;
+}) {
+  const [endTime, setEndTime] = useState(toLocalDateTimeInputValue(new Date(session.endTime ?? lastActivityAt(session))));
+  const lastEvent = Math.max(session.startTime, ...session.consumptions.map(ev => ev.timestamp));
+  // The input only has minute precision, so never end before the last consumption's exact time.
+  const end = Math.max(dayjs(endTime).valueOf(), lastEvent);
+  const error = !dayjs(endTime).isValid() ? 'Enter an end time'
+    : dayjs(endTime).isBefore(dayjs(lastEvent).startOf('minute')) ? 'End time is before the last consumption'
+    : end > Date.now() ? 'End time is in the future'
+    : '';
+
+  return (
+    <div className="card notice" style={{ marginTop: 16 }}>
+      <div>
+        <strong>Session ended automatically.</strong>{' '}
+        The session started {new Date(session.startTime).toLocaleString()} had no activity for {settings.inactivityHours} h, so it was ended at its last activity. When did it really end?
+        <label style={{ marginTop: 8 }}>End time
+          <input type="datetime-local" value={endTime} onChange={e => setEndTime(e.target.value)} />
+        </label>
+        {error
+          ? <div className="help error">{error}</div>
+          : <div className="help">Duration {formatDuration(end - session.startTime)}</div>}
+      </div>
+      <div className="toolbar">
+        <button onClick={() => onConfirm(end)} disabled={!!error}>Confirm</button>
+        <button className="secondary" onClick={onResume}>Still Going</button>
+      </div>
+    </div>
+  );
+}
+
+export function AutoCloseSettingsPanel({ settings, onSave, onClose }: {
+  settings: AutoCloseSettings;
+  onSave: (settings: AutoCloseSettings) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(settings);
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Auto-end Sessions</h3>
+        <div className="toolbar">
+          <button onClick={() => onSave(draft)}>Save</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="help">An active session with no consumption or check-in for this long is ended at its last activity, and you are asked to confirm the end time.</div>
+      <div className="grid grid-3" style={{ marginTop: 8 }}>
+        <label><input type="checkbox" style={{ width: 'auto' }} checked={draft.enabled} onChange={e => setDraft(prev => ({ ...prev, enabled: e.target.checked }))} /> Auto-end inactive sessions</label>
+        <label>Inactivity window (hours)
+          <input type="number" min="0.5" step="0.5" value={draft.inactivityHours} onChange={e => setDraft(prev => ({ ...prev, inactivityHours: Math.max(0.5, Number(e.target.value)) }))} />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { downloadText } from '../utils';
+import { discardQuarantine, listQuarantine, listSnapshots, type QuarantineEntry, type Snapshot } from '../storage';
+
+export function BackupPanel({ onRestore, onClose }: {
+  onRestore: (snapshot: Snapshot) => void;
+  onClose: () => void;
+}) {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [quarantined, setQuarantined] = useState<QuarantineEntry[]>([]);
+
+  useEffect(() => {
+    listSnapshots().then(list => setSnapshots(list.reverse()));
+    listQuarantine().then(setQuarantined);
+  }, []);
+
+  function discard(key: string) {
+    if (!confirm('Permanently discard this quarantined data?')) return;
+    discardQuarantine(key);
+    setQuarantined(prev => prev.filter(q => q.key !== key));
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Backups</h3>
+        <div className="toolbar"><button className="ghost" onClick={onClose}>Close</button></div>
+      </div>
+
+      <table className="table">
+        <thead><tr><th>Snapshot</th><th>Sessions</th><th>Version</th><th></th></tr></thead>
+        <tbody>
+          {snapshots.length === 0 && (
+            <tr><td colSpan={4} className="help">No snapshots yet. One is taken at most hourly while you log sessions.</td></tr>
+          )}
+          {snapshots.map(snap => (
+            <tr key={snap.takenAt}>
+              <td>{new Date(snap.takenAt).toLocaleString()}</td>
+              <td>{snap.data.sessions.length}</td>
+              <td>v{snap.data.version}</td>
+              <td><button className="secondary" onClick={() => onRestore(snap)}>Restore</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {quarantined.length > 0 && (
+        <>
+          <hr className="sep" />
+          <h3>Quarantined Data</h3>
+          <div className="help">Stored data that could not be loaded is kept here instead of being overwritten.</div>
+          <table className="table">
+            <thead><tr><th>When</th><th>Reason</th><th>Size</th><th></th></tr></thead>
+            <tbody>
+              {quarantined.map(q => (
+                <tr key={q.key}>
+                  <td>{q.quarantinedAt ? new Date(q.quarantinedAt).toLocaleString() : '—'}</td>
+                  <td>{q.reason}</td>
+                  <td>{Math.ceil(q.raw.length / 1024)} KB</td>
+                  <td>
+                    <div className="toolbar">
+                      <button className="ghost" onClick={() => downloadText(q.key.toLowerCase() + '.json', q.raw, 'application/json')} disabled={!q.raw}>Download</button>
+                      <button className="danger" onClick={() => discard(q.key)}>Discard</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React, { useMemo, useState } from 'react';
+import dayjs from 'dayjs';
+import type { Session } from '../types';
+import type { DoseModel } from '../doseModel';
+import { dailyTotals, type DayTotals } from '../reports';
+
+type Metric = 'doseMg' | 'sessions';
+
+const METRIC_LABELS: Record<Metric, string> = { doseMg: 'Dose', sessions: 'Sessions' };
+
+function level(value: number, max: number): number {
+  return value <= 0 || max <= 0 ? 0 : Math.min(4, Math.ceil((value / max) * 4));
+}
+
+function describe(day: DayTotals): string {
+  return `${dayjs(day.start).format('ddd, MMM D YYYY')}: ${day.sessions} session(s), ${day.doseMg.toFixed(1)} mg`;
+}
+
+// One cell per day, a column per week, shaded by daily dose or session count.
+export function CalendarHeatmap({ sessions, doseModel, weeks = 26, onSelectDay }: {
+  sessions: Session[];
+  doseModel: DoseModel;
+  weeks?: number;
+  onSelectDay?: (start: number) => void;
+}) {
+  const [metric, setMetric] = useState<Metric>('doseMg');
+  const days = useMemo(() => {
+    const from = dayjs().startOf('week').subtract(weeks - 1, 'week').valueOf();
+    return dailyTotals(sessions, from, Date.now(), doseModel);
+  }, [sessions, doseModel, weeks]);
+  const max = Math.max(0, ...days.map(d => d[metric]));
+  const activeDays = days.filter(d => d.sessions > 0).length;
+
+  return (
+    <div className="card">
+      <div className="section-title">
+        <h3>Calendar</h3>
+        <div className="toolbar">
+          {(Object.keys(METRIC_LABELS) as Metric[]).map(m => (
+            <button key={m} className={metric === m ? '' : 'ghost'} onClick={() => setMetric(m)}>{METRIC_LABELS[m]}</button>
+          ))}
+        </div>
+      </div>
+      <div className="heatmap">
+        {days.map(d => (
+          <div
+            key={d.date}
+            className={`cell l${level(d[metric], max)}`}
+            title={describe(d)}
+            onClick={onSelectDay && (() => onSelectDay(d.start))}
+          />
+        ))}
+      </div>
+      <div className="help">
+        {activeDays} of {days.length} days with use in the last {weeks} weeks. Darker is more {metric === 'doseMg' ? `dose (max ${max.toFixed(1)} mg/day)` : `sessions (max ${max}/day)`}.
+      </div>
+    </div>
+  );
+}
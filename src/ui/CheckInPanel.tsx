@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import type { EffectCheckIn } from '../types';
+import type { DueCheckIn } from '../checkIns';
+import { generateId } from '../utils';
+
+const MOODS = ['Awful', 'Low', 'Okay', 'Good', 'Great'];
+
+function offsetLabel(min: number): string {
+  return min >= 60 ? `+${min / 60}h` : `+${min}m`;
+}
+
+export function CheckInPanel({ due, pending, effects, onSubmit, onSkip, onClose }: {
+  due?: DueCheckIn; // undefined for a manual check-in
+  pending: number;
+  effects: string[];
+  onSubmit: (checkIn: EffectCheckIn) => void;
+  onSkip?: () => void;
+  onClose?: () => void;
+}) {
+  const [intensities, setIntensities] = useState<Record<string, number>>({});
+  const [mood, setMood] = useState<number | undefined>();
+  const canNotify = typeof Notification !== 'undefined' && Notification.permission === 'default';
+
+  function submit() {
+    onSubmit({
+      id: generateId('k'),
+      timestamp: Date.now(),
+      consumptionId: due?.consumption.id,
+      offsetMin: due?.offsetMin,
+      intensities: Object.fromEntries(effects.map(e => [e, intensities[e] ?? 0])),
+      mood
+    });
+    setIntensities({});
+    setMood(undefined);
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>
+          Effect Check-in
+          {due && <span className="help"> {offsetLabel(due.offsetMin)} after {due.consumption.weightGrams} g {due.consumption.method}{pending > 1 ? ` · ${pending - 1} more waiting` : ''}</span>}
+        </h3>
+        <div className="toolbar">
+          {canNotify && <button className="ghost" onClick={() => Notification.requestPermission()}>Enable Notifications</button>}
+          <button onClick={submit}>Save</button>
+          {onSkip && <button className="secondary" onClick={onSkip}>Skip</button>}
+          {onClose && <button className="ghost" onClick={onClose}>Close</button>}
+        </div>
+      </div>
+      <div className="grid grid-3">
+        {effects.map(e => (
+          <label key={e}>{e}: {intensities[e] ?? 0}
+            <input type="range" min="0" max="10" step="1" value={intensities[e] ?? 0} onChange={ev => setIntensities(prev => ({ ...prev, [e]: Number(ev.target.value) }))} />
+          </label>
+        ))}
+      </div>
+      <label style={{ marginTop: 8 }}>Mood</label>
+      <div className="toolbar">
+        {MOODS.map((m, i) => (
+          <button key={m} className={mood === i + 1 ? '' : 'ghost'} onClick={() => setMood(i + 1)}>{m}</button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { CSV_FIELDS, csvToSessions, guessMapping, type CsvField, type CsvMapping } from '../csv';
+import type { ImportReport } from '../importData';
+
+export function CsvImportPanel({ fileName, rows, onContinue, onCancel }: {
+  fileName: string;
+  rows: string[][];
+  onContinue: (report: ImportReport) => void;
+  onCancel: () => void;
+}) {
+  const [hasHeader, setHasHeader] = useState(true);
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const header = hasHeader ? rows[0] ?? [] : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  const data = useMemo(() => hasHeader ? rows.slice(1) : rows, [rows, hasHeader]);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessMapping(rows[0] ?? []));
+  const [dateFormat, setDateFormat] = useState('');
+  const preview = useMemo(() => csvToSessions(data.slice(0, 5), mapping, dateFormat || undefined), [data, mapping, dateFormat]);
+
+  function setColumn(field: CsvField, value: string) {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Import {fileName}</h3>
+        <div className="toolbar">
+          <button onClick={() => onContinue(csvToSessions(data, mapping, dateFormat || undefined))} disabled={mapping.start === undefined}>Continue</button>
+          <button className="ghost" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+      <div className="help">{data.length} rows. Match each field to a column; rows sharing a session id become one session with several consumptions.</div>
+
+      <div className="grid grid-3" style={{ marginTop: 8 }}>
+        <label><input type="checkbox" style={{ width: 'auto' }} checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} /> First row is a header</label>
+        <label>Date format (blank = automatic)
+          <input value={dateFormat} onChange={e => setDateFormat(e.target.value)} placeholder="DD.MM.YYYY HH:mm" />
+        </label>
+      </div>
+      <div className="grid grid-3" style={{ marginTop: 8 }}>
+        {CSV_FIELDS.map(f => (
+          <label key={f.field}>{f.label}
+            <select value={mapping[f.field] ?? ''} onChange={e => setColumn(f.field, e.target.value)}>
+              <option value="">— not in file —</option>
+              {header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <hr className="sep" />
+      <h3>Preview</h3>
+      <table className="table">
+        <thead><tr><th>Start</th><th>End</th><th>Consumptions</th><th>Substance</th><th>Effects</th></tr></thead>
+        <tbody>
+          {preview.sessions.map(s => (
+            <tr key={s.id}>
+              <td>{new Date(s.startTime).toLocaleString()}</td>
+              <td>{s.endTime ? new Date(s.endTime).toLocaleString() : '—'}</td>
+              <td>{s.consumptions.map(ev => `${ev.weightGrams} g ${ev.method}`).join(', ') || '—'}</td>
+              <td>{s.baseSubstance?.type}</td>
+              <td>{s.effects.join(', ')}</td>
+            </tr>
+          ))}
+          {preview.errors.map(err => (
+            <tr key={`err-${err.index}`}><td colSpan={5} className="help error">Row {err.index + 1}: {err.messages.join('; ')}</td></tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
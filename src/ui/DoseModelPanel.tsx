@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { DEFAULT_METHOD_PROFILES, FALLBACK_METHOD, validateMethodProfile, type MethodProfile, type MethodProfiles } from '../doseModel';
+
+const FIELDS: { key: keyof MethodProfile; label: string; scale: number; step: string }[] = [
+  { key: 'bioavailability', label: 'Bioavailability (%)', scale: 100, step: '1' },
+  { key: 'onsetMin', label: 'Onset (min)', scale: 1, step: '1' },
+  { key: 'peakMin', label: 'Peak (min)', scale: 1, step: '1' },
+  { key: 'durationMin', label: 'Duration (min)', scale: 1, step: '5' }
+];
+
+export function DoseModelPanel({ profiles, methods = [], onSave, onClose }: {
+  profiles: MethodProfiles;
+  methods?: string[]; // vocabulary methods, listed with the fallback profile until they get their own
+  onSave: (profiles: MethodProfiles) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<MethodProfiles>(() => ({
+    ...DEFAULT_METHOD_PROFILES,
+    ...Object.fromEntries(methods.filter(m => !(m in DEFAULT_METHOD_PROFILES)).map(m => [m, DEFAULT_METHOD_PROFILES[FALLBACK_METHOD]])),
+    ...profiles
+  }));
+  const errors = Object.entries(draft).flatMap(([method, p]) => validateMethodProfile(p).map(e => `${method}: ${e}`));
+
+  function update(method: string, key: keyof MethodProfile, value: number, scale: number) {
+    setDraft(prev => ({ ...prev, [method]: { ...prev[method], [key]: value / scale } }));
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: 16 }}>
+      <div className="section-title">
+        <h3>Dose Model</h3>
+        <div className="toolbar">
+          <button onClick={() => onSave(draft)} disabled={errors.length > 0}>Save</button>
+          <button className="secondary" onClick={() => setDraft(DEFAULT_METHOD_PROFILES)}>Reset Defaults</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="help">Absorbed dose = grams × THC% × bioavailability × your share of the consumption: the share recorded for you, otherwise what is left split evenly between the people sharing without one. Onset, peak and duration shape the effect curve.</div>
+      <table className="table">
+        <thead>
+          <tr><th>Method</th>{FIELDS.map(f => <th key={f.key}>{f.label}</th>)}</tr>
+        </thead>
+        <tbody>
+          {Object.entries(draft).map(([method, p]) => (
+            <tr key={method}>
+              <td>{method}</td>
+              {FIELDS.map(f => (
+                <td key={f.key}>
+                  <input type="number" min="0" step={f.step} value={Math.round(p[f.key] * f.scale * 100) / 100}
+                    onChange={e => update(method, f.key, Number(e.target.value), f.scale)} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {errors.length > 0 && <div className="help error">{errors.join('; ')}</div>}
+    </div>
+  );
+}
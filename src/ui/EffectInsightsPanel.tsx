@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import type { Product, Session } from '../types';
+import type { DoseModel } from '../doseModel';
+import { effectAssociations, FACTOR_LABELS, metIntention, suggestForIntention, type Factor } from '../effectAnalytics';
+
+export function EffectInsightsPanel({ sessions, products, doseModel, negativeEffects }: {
+  sessions: Session[];
+  products: Product[];
+  doseModel: DoseModel;
+  negativeEffects: string[];
+}) {
+  const [effect, setEffect] = useState('');
+  const [factor, setFactor] = useState<Factor | ''>('');
+  const [intention, setIntention] = useState('');
+
+  const associations = useMemo(() => effectAssociations(sessions, products, doseModel), [sessions, products, doseModel]);
+  const effects = useMemo(() => [...new Set(associations.map(a => a.effect))].sort(), [associations]);
+  const intentions = useMemo(() => [...new Set(sessions.map(s => s.user.intention?.trim()).filter((i): i is string => !!i))], [sessions]);
+  const rows = associations.filter(a => (!effect || a.effect === effect) && (!factor || a.factor === factor)).slice(0, 15);
+  const suggestions = useMemo(() => intention.trim() ? suggestForIntention(intention, sessions, products, doseModel, 3, negativeEffects) : [], [intention, sessions, products, doseModel, negativeEffects]);
+  const outcomes = sessions.map(s => metIntention(s, negativeEffects)).filter((m): m is boolean => m !== undefined);
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <h3>Effect Insights</h3>
+      <div className="help">
+        Which inputs go with which effects. "Seen" is how often the effect was reported in sessions with that input, compared with all sessions.
+        {outcomes.length > 0 && ` ${outcomes.filter(Boolean).length} of ${outcomes.length} sessions with a stated intention met it.`}
+      </div>
+      <div className="grid grid-3" style={{ marginTop: 8 }}>
+        <label>Effect
+          <select value={effect} onChange={e => setEffect(e.target.value)}>
+            <option value="">All effects</option>
+            {effects.map(e => <option key={e}>{e}</option>)}
+          </select>
+        </label>
+        <label>Input
+          <select value={factor} onChange={e => setFactor(e.target.value as Factor | '')}>
+            <option value="">All inputs</option>
+            {(Object.keys(FACTOR_LABELS) as Factor[]).map(f => <option key={f} value={f}>{FACTOR_LABELS[f]}</option>)}
+          </select>
+        </label>
+        <label>Suggest for intention
+          <input list="intention-options" value={intention} onChange={e => setIntention(e.target.value)} placeholder="Relax, Sleep, Focus" />
+          <datalist id="intention-options">{intentions.map(i => <option key={i} value={i} />)}</datalist>
+        </label>
+      </div>
+
+      {intention.trim() && (
+        <table className="table" style={{ marginTop: 8 }}>
+          <thead><tr><th>Product</th><th>Method</th><th>Dose</th><th>Worked</th></tr></thead>
+          <tbody>
+            {suggestions.length === 0 && <tr><td colSpan={4} className="help">Not enough sessions with matching effects yet.</td></tr>}
+            {suggestions.map((sg, i) => (
+              <tr key={i}>
+                <td>{sg.product ?? '—'}</td>
+                <td>{sg.method ?? '—'}</td>
+                <td>{sg.dose ?? '—'}</td>
+                <td>{sg.met} of {sg.sessions} sessions</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <table className="table" style={{ marginTop: 8 }}>
+        <thead><tr><th>Effect</th><th>Input</th><th>Value</th><th>Seen</th><th>Overall</th><th>Sessions</th></tr></thead>
+        <tbody>
+          {rows.length === 0 && <tr><td colSpan={6} className="help">Record effects in at least two sessions with a shared input to see insights.</td></tr>}
+          {rows.map(a => (
+            <tr key={`${a.effect}-${a.factor}-${a.value}`}>
+              <td>{a.effect}</td>
+              <td>{FACTOR_LABELS[a.factor]}</td>
+              <td>{a.value}</td>
+              <td>{Math.round(a.rate * 100)}%</td>
+              <td>{Math.round(a.baseline * 100)}%</td>
+              <td>{a.hits} of {a.sessions}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import dayjs from 'dayjs';
+import type { Goals } from '../goals';
+import { generateId } from '../utils';
+
+type LimitKey = Exclude<keyof Goals, 'breaks'>;
+
+const LIMITS: { key: LimitKey; label: string; step: string }[] = [
+  { key: 'maxGramsPerDay', label: 'Max grams per day', step: '0.05' },
+  { key: 'maxGramsPerWeek', label: 'Max grams per week', step: '0.1' },
+  { key: 'maxDoseMgPerDay', label: 'Max absorbed THC per day (mg)', step: '1' },
+  { key: 'maxDoseMgPerWeek', label: 'Max absorbed THC per week (mg)', step: '5' },
+  { key: 'maxSessionsPerDay', label: 'Max sessions per day', step: '1' },
+  { key: 'minGapHours', label: 'Minimum gap between sessions (h)', step: '0.5' }
+];
+
+export function GoalsPanel({ goals, onSave, onClose }: {
+  goals: Goals;
+  onSave: (goals: Goals) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(goals);
+  const [breakStart, setBreakStart] = useState(dayjs().format('YYYY-MM-DD'));
+  const [breakEnd, setBreakEnd] = useState(dayjs().add(2, 'week').format('YYYY-MM-DD'));
+  const [breakNote, setBreakNote] = useState('');
+
+  function setLimit(key: LimitKey, raw: string) {
+    const value = raw === '' ? undefined : Number(raw);
+    setDraft(prev => ({ ...prev, [key]: value !== undefined && value > 0 ? value : undefined }));
+  }
+
+  function addBreak() {
+    const start = dayjs(breakStart).startOf('day').valueOf();
+    const end = dayjs(breakEnd).endOf('day').valueOf();
+    if (!(end > start)) return;
+    setDraft(prev => ({ ...prev, breaks: [...prev.breaks, { id: generateId('b'), start, end, note: breakNote || undefined }].sort((a, b) => a.start - b.start) }));
+    setBreakNote('');
+  }
+
+  function removeBreak(id: string) {
+    setDraft(prev => ({ ...prev, breaks: prev.breaks.filter(b => b.id !== id) }));
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: 16 }}>
+      <div className="section-title">
+        <h3>Goals & Limits</h3>
+        <div className="toolbar">
+          <button onClick={() => onSave(draft)}>Save</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="grid grid-3">
+        {LIMITS.map(l => (
+          <label key={l.key}>{l.label}
+            <input type="number" min="0" step={l.step} value={draft[l.key] ?? ''} placeholder="No limit" onChange={e => setLimit(l.key, e.target.value)} />
+          </label>
+        ))}
+      </div>
+
+      <hr className="sep" />
+      <h3>Tolerance Breaks</h3>
+      <div className="grid grid-3">
+        <label>From<input type="date" value={breakStart} onChange={e => setBreakStart(e.target.value)} /></label>
+        <label>Until<input type="date" value={breakEnd} onChange={e => setBreakEnd(e.target.value)} /></label>
+        <label>Note<input value={breakNote} onChange={e => setBreakNote(e.target.value)} placeholder="Reason or goal" /></label>
+      </div>
+      <div className="toolbar" style={{ marginTop: 8 }}><button className="secondary" onClick={addBreak}>Plan Break</button></div>
+      {draft.breaks.length > 0 && (
+        <table className="table" style={{ marginTop: 8 }}>
+          <thead><tr><th>From</th><th>Until</th><th>Note</th><th></th></tr></thead>
+          <tbody>
+            {draft.breaks.map(b => (
+              <tr key={b.id}>
+                <td>{new Date(b.start).toLocaleDateString()}</td>
+                <td>{new Date(b.end).toLocaleDateString()}</td>
+                <td>{b.note}</td>
+                <td><button className="danger" onClick={() => removeBreak(b.id)}>Remove</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import type { Product, Session } from '../types';
+import { applyMerge, applyReplace, mergeProducts, planMerge, type ConflictChoice, type ImportReport } from '../importData';
+
+function describe(s: Session): string {
+  const end = s.endTime ? new Date(s.endTime).toLocaleString() : 'active';
+  return `${new Date(s.startTime).toLocaleString()} – ${end}, ${s.consumptions.length} events`;
+}
+
+export function ImportPanel({ fileName, report, sessions, replaced, products, onApply, onCancel }: {
+  fileName: string;
+  report: ImportReport;
+  sessions: Session[];
+  replaced: number; // local sessions a replace removes; group sessions others own are kept
+  products: Product[];
+  onApply: (next: Session[], products?: Product[]) => void;
+  onCancel: () => void;
+}) {
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const plan = useMemo(() => planMerge(sessions, report.sessions), [sessions, report]);
+  const incomingProducts = report.products ?? [];
+  const newProducts = incomingProducts.filter(p => !products.some(x => x.id === p.id)).length;
+  const productErrors = report.productErrors ?? [];
+
+  function choose(id: string, choice: ConflictChoice) { setChoices(prev => ({ ...prev, [id]: choice })); }
+  function chooseAll(choice: ConflictChoice) { setChoices(Object.fromEntries(plan.conflicts.map(c => [c.id, choice]))); }
+
+  function apply() {
+    if (mode === 'replace') {
+      if (!confirm(`Replace all ${replaced} local sessions with ${report.sessions.length} imported sessions?`)) return;
+      onApply(applyReplace(report.sessions), report.products);
+    } else {
+      onApply(applyMerge(sessions, plan, choices), report.products && mergeProducts(products, report.products));
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Import {fileName}</h3>
+        <div className="toolbar">
+          <button onClick={apply} disabled={!report.sessions.length && !incomingProducts.length}>Apply {mode === 'merge' ? 'Merge' : 'Replace'}</button>
+          <button className="ghost" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+      <div className="help">{report.sessions.length} of {report.total} records valid{report.errors.length ? `, ${report.errors.length} rejected` : ''}</div>
+      {report.products && (
+        <div className="help">{incomingProducts.length} of {incomingProducts.length + productErrors.length} products valid{productErrors.length ? `, ${productErrors.length} rejected` : ''}</div>
+      )}
+
+      {report.errors.length + productErrors.length > 0 && (
+        <table className="table" style={{ marginTop: 8 }}>
+          <thead><tr><th>Record</th><th>Id</th><th>Problems</th></tr></thead>
+          <tbody>
+            {report.errors.map(err => (
+              <tr key={err.index}>
+                <td>{err.index >= 0 ? `#${err.index + 1}` : 'File'}</td>
+                <td>{err.id ?? '—'}</td>
+                <td>{err.messages.join('; ')}</td>
+              </tr>
+            ))}
+            {productErrors.map(err => (
+              <tr key={`product-${err.index}`}>
+                <td>Product #{err.index + 1}</td>
+                <td>{err.id ?? '—'}</td>
+                <td>{err.messages.join('; ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {(report.sessions.length > 0 || incomingProducts.length > 0) && (
+        <>
+          <hr className="sep" />
+          <div className="toolbar">
+            <label><input type="radio" style={{ width: 'auto' }} checked={mode === 'merge'} onChange={() => setMode('merge')} /> Merge with existing</label>
+            <label><input type="radio" style={{ width: 'auto' }} checked={mode === 'replace'} onChange={() => setMode('replace')} /> Replace existing</label>
+          </div>
+          {mode === 'merge' ? (
+            <>
+              <div className="help">{plan.added.length} new, {plan.unchanged} identical, {plan.conflicts.length} conflicting</div>
+              {report.products && <div className="help">{newProducts} new product(s) added; {incomingProducts.length - newProducts} already in the inventory keep their local stock.</div>}
+              {plan.conflicts.length > 0 && (
+                <>
+                  <div className="toolbar" style={{ marginTop: 8 }}>
+                    <button className="ghost" onClick={() => chooseAll('local')}>Keep all local</button>
+                    <button className="ghost" onClick={() => chooseAll('incoming')}>Use all imported</button>
+                  </div>
+                  <table className="table" style={{ marginTop: 8 }}>
+                    <thead><tr><th>Local</th><th>Imported</th><th>Changed</th><th>Keep</th></tr></thead>
+                    <tbody>
+                      {plan.conflicts.map(c => (
+                        <tr key={c.id}>
+                          <td>{describe(c.local)}</td>
+                          <td>{describe(c.incoming)}</td>
+                          <td>{c.fields.join(', ')}</td>
+                          <td>
+                            <select value={choices[c.id] ?? 'local'} onChange={e => choose(c.id, e.target.value as ConflictChoice)}>
+                              <option value="local">Local</option>
+                              <option value="incoming">Imported</option>
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </>
+          ) : (
+            <div className="help">
+              All {replaced} local sessions will be replaced by {report.sessions.length} imported sessions.
+              {report.products && ` The inventory of ${products.length} product(s) will be replaced by the ${incomingProducts.length} imported.`}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
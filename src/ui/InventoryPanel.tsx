@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import dayjs from 'dayjs';
+import type { Product } from '../types';
+import { generateId } from '../utils';
+import { DEFAULT_LOW_STOCK_GRAMS, formatTerpenes, isLowStock, parseTerpenes, pricePerGram, type MonthlySpend } from '../inventory';
+
+type ProductForm = {
+  name: string;
+  kind: string;
+  thcPercent: number;
+  cbdPercent: string;
+  terpenes: string;
+  purchaseDate: string;
+  price: string;
+  initialGrams: number;
+  remainingGrams: number;
+  lowStockGrams: number;
+};
+
+function emptyForm(): ProductForm {
+  return { name: '', kind: 'Flower', thcPercent: 20, cbdPercent: '', terpenes: '', purchaseDate: dayjs().format('YYYY-MM-DD'), price: '', initialGrams: 3.5, remainingGrams: 3.5, lowStockGrams: DEFAULT_LOW_STOCK_GRAMS };
+}
+
+function toForm(p: Product): ProductForm {
+  return {
+    name: p.name,
+    kind: p.kind ?? '',
+    thcPercent: p.thcPercent,
+    cbdPercent: p.cbdPercent !== undefined ? String(p.cbdPercent) : '',
+    terpenes: formatTerpenes(p.terpenes),
+    purchaseDate: dayjs(p.purchaseDate).format('YYYY-MM-DD'),
+    price: p.price !== undefined ? String(p.price) : '',
+    initialGrams: p.initialGrams,
+    remainingGrams: p.remainingGrams,
+    lowStockGrams: p.lowStockGrams ?? DEFAULT_LOW_STOCK_GRAMS
+  };
+}
+
+export function InventoryPanel({ products, spend, onChange, onClose }: {
+  products: Product[];
+  spend: MonthlySpend[];
+  onChange: (products: Product[]) => void;
+  onClose: () => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProductForm>(emptyForm);
+  const [showArchived, setShowArchived] = useState(false);
+
+  function update<K extends keyof ProductForm>(key: K, value: ProductForm[K]) { setForm(prev => ({ ...prev, [key]: value })); }
+
+  function edit(p: Product) {
+    setEditingId(p.id);
+    setForm(toForm(p));
+  }
+
+  function reset() {
+    setEditingId(null);
+    setForm(emptyForm());
+  }
+
+  function save() {
+    if (!form.name.trim()) return;
+    const product: Product = {
+      id: editingId ?? generateId('p'),
+      name: form.name.trim(),
+      kind: form.kind || undefined,
+      thcPercent: Math.max(0, Math.min(100, form.thcPercent)),
+      cbdPercent: form.cbdPercent !== '' ? Number(form.cbdPercent) : undefined,
+      terpenes: parseTerpenes(form.terpenes),
+      purchaseDate: dayjs(form.purchaseDate).valueOf(),
+      price: form.price !== '' ? Number(form.price) : undefined,
+      initialGrams: Math.max(0, form.initialGrams),
+      remainingGrams: Math.max(0, Math.min(form.remainingGrams, form.initialGrams)),
+      lowStockGrams: form.lowStockGrams
+    };
+    onChange(editingId ? products.map(p => p.id === editingId ? { ...product, archived: p.archived } : p) : [...products, product]);
+    reset();
+  }
+
+  function toggleArchived(p: Product) {
+    onChange(products.map(x => x.id === p.id ? { ...x, archived: !x.archived } : x));
+  }
+
+  const visible = products.filter(p => showArchived || !p.archived);
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Inventory</h3>
+        <div className="toolbar">
+          <label style={{ margin: 0 }}><input type="checkbox" style={{ width: 'auto' }} checked={showArchived} onChange={e => setShowArchived(e.target.checked)} /> Show archived</label>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      <table className="table">
+        <thead>
+          <tr><th>Product</th><th>THC / CBD</th><th>Terpenes</th><th>Purchased</th><th>Price</th><th>Remaining</th><th></th></tr>
+        </thead>
+        <tbody>
+          {visible.length === 0 && <tr><td colSpan={7} className="help">No products yet. Add what's in your stash below.</td></tr>}
+          {visible.map(p => {
+            const ppg = pricePerGram(p);
+            return (
+              <tr key={p.id}>
+                <td>{p.name}<div className="help">{p.kind}{p.archived ? ' · archived' : ''}</div></td>
+                <td>{p.thcPercent}%{p.cbdPercent !== undefined ? ` / ${p.cbdPercent}%` : ''}</td>
+                <td>{formatTerpenes(p.terpenes)}</td>
+                <td>{new Date(p.purchaseDate).toLocaleDateString()}</td>
+                <td>{p.price !== undefined ? p.price.toFixed(2) : '—'}{ppg !== undefined && <div className="help">{ppg.toFixed(2)}/g</div>}</td>
+                <td>{p.remainingGrams.toFixed(2)} / {p.initialGrams} g {isLowStock(p) && <span className="badge warn">Low</span>}</td>
+                <td>
+                  <div className="toolbar">
+                    <button className="secondary" onClick={() => edit(p)}>Edit</button>
+                    <button className="ghost" onClick={() => toggleArchived(p)}>{p.archived ? 'Restore' : 'Archive'}</button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <hr className="sep" />
+      <h3>{editingId ? 'Edit Product' : 'Add Product'}</h3>
+      <div className="grid grid-3">
+        <label>Name<input value={form.name} onChange={e => update('name', e.target.value)} placeholder="Strain or product" /></label>
+        <label>Kind<input value={form.kind} onChange={e => update('kind', e.target.value)} placeholder="Flower, Cartridge, Edible" /></label>
+        <label>Purchased<input type="date" value={form.purchaseDate} onChange={e => update('purchaseDate', e.target.value)} /></label>
+        <label>THC (%)<input type="number" min="0" max="100" step="0.1" value={form.thcPercent} onChange={e => update('thcPercent', Number(e.target.value))} /></label>
+        <label>CBD (%)<input type="number" min="0" max="100" step="0.1" value={form.cbdPercent} onChange={e => update('cbdPercent', e.target.value)} /></label>
+        <label>Terpenes<input value={form.terpenes} onChange={e => update('terpenes', e.target.value)} placeholder="Myrcene 0.8%, Limonene 0.4%" /></label>
+        <label>Price<input type="number" min="0" step="0.01" value={form.price} onChange={e => update('price', e.target.value)} /></label>
+        <label>Purchased (g)<input type="number" min="0" step="0.1" value={form.initialGrams} onChange={e => update('initialGrams', Number(e.target.value))} /></label>
+        <label>Remaining (g)<input type="number" min="0" step="0.01" value={form.remainingGrams} onChange={e => update('remainingGrams', Number(e.target.value))} /></label>
+        <label>Warn below (g)<input type="number" min="0" step="0.1" value={form.lowStockGrams} onChange={e => update('lowStockGrams', Number(e.target.value))} /></label>
+      </div>
+      <div className="toolbar" style={{ marginTop: 8 }}>
+        <button onClick={save} disabled={!form.name.trim()}>{editingId ? 'Save Product' : 'Add Product'}</button>
+        {editingId && <button className="ghost" onClick={reset}>Cancel</button>}
+      </div>
+
+      {spend.length > 0 && (
+        <>
+          <hr className="sep" />
+          <h3>Spend per Month</h3>
+          <table className="table">
+            <thead><tr><th>Month</th><th>Purchased</th><th>Consumed value</th></tr></thead>
+            <tbody>
+              {[...spend].reverse().map(m => (
+                <tr key={m.month}><td>{m.month}</td><td>{m.purchased.toFixed(2)}</td><td>{m.consumed.toFixed(2)}</td></tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
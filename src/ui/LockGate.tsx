@@ -0,0 +1,73 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { setActiveKey, unlockPasscode, type PasscodeConfig } from '../crypto';
+import { getMeta, openSessionDb, subscribeToMetaChanges } from '../db';
+import { PasswordPrompt } from './PasswordPrompt';
+
+export type LockControls = {
+  config?: PasscodeConfig;
+  lockNow: () => void;
+  onConfigChange: (config: PasscodeConfig | undefined) => void;
+};
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Keeps the app unmounted until the passcode is entered, and locks it again after
+// `idleMinutes` without input. Locking forgets the key and all decrypted state.
+export function LockGate({ children }: { children: (lock: LockControls) => React.ReactNode }) {
+  const [config, setConfig] = useState<PasscodeConfig>();
+  const [status, setStatus] = useState<'loading' | 'locked' | 'open'>('loading');
+  const [error, setError] = useState('');
+  // Bumped to remount the app with a fresh view of the database.
+  const [generation, setGeneration] = useState(0);
+
+  const lockNow = useCallback(() => {
+    setActiveKey(undefined);
+    setStatus('locked');
+  }, []);
+
+  useEffect(() => {
+    const load = () => openSessionDb().then(db => getMeta<PasscodeConfig>(db, 'passcode')).then(stored => {
+      setConfig(stored);
+      setActiveKey(undefined);
+      setStatus(stored ? 'locked' : 'open');
+      setGeneration(g => g + 1);
+    });
+    load().catch(e => setError('Could not open the session database: ' + (e as Error).message));
+    // Another tab changed the passcode, so our key (if any) no longer matches the data.
+    return subscribeToMetaChanges(key => { if (key === 'passcode') load().catch(() => {}); });
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'open' || !config?.idleMinutes) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lockNow, config.idleMinutes * 60_000);
+    };
+    reset();
+    for (const name of ACTIVITY_EVENTS) window.addEventListener(name, reset, { passive: true });
+    return () => {
+      clearTimeout(timer);
+      for (const name of ACTIVITY_EVENTS) window.removeEventListener(name, reset);
+    };
+  }, [status, config, lockNow]);
+
+  async function unlock(passcode: string) {
+    if (!config) return;
+    setActiveKey(await unlockPasscode(config, passcode));
+    setGeneration(g => g + 1);
+    setStatus('open');
+  }
+
+  if (status === 'open') {
+    return <React.Fragment key={generation}>{children({ config, lockNow, onConfigChange: setConfig })}</React.Fragment>;
+  }
+  return (
+    <div className="container">
+      <h1>Weed Session Manager</h1>
+      {status === 'loading'
+        ? <div className={error ? 'card notice' : 'help'}>{error || 'Loading…'}</div>
+        : <PasswordPrompt title="Locked" help="Enter your passcode to decrypt your sessions." submitLabel="Unlock" onSubmit={unlock} />}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Product, Session } from '../types';
+import { computeSessionDose, type DoseModel } from '../doseModel';
+import { sessionCost } from '../inventory';
+import { sortSessions, type LogFilter, type SortDir, type SortKey } from '../logFilter';
+import { formatDuration, intervalSincePrevious } from '../utils';
+import { SessionClock } from './SessionClock';
+import { participantsOf, type Profile } from '../profiles';
+
+const PAGE_SIZE = 50;
+
+const COLUMNS: { label: string; key?: SortKey }[] = [
+  { label: 'Start', key: 'start' },
+  { label: 'Duration', key: 'duration' },
+  { label: 'Time of Day', key: 'timeOfDay' },
+  { label: 'Dose', key: 'dose' },
+  { label: 'People', key: 'people' },
+  { label: 'Effects' },
+  { label: 'Cost', key: 'cost' },
+  { label: 'Actions' }
+];
+
+// Renders one page at a time so a log of thousands of sessions stays responsive.
+export function Logbook({ sessions, filter, chronology, products, profiles, doseModel, onEnd, onResume, onEdit, onDelete }: {
+  sessions: Session[]; // the filtered sessions to list
+  filter: LogFilter; // only used to go back to the first page when it changes
+  chronology: Session[]; // every session oldest first, for the gap since the previous one
+  products: Product[];
+  profiles: Profile[];
+  doseModel: DoseModel; // the viewing profile's, so group sessions show their share
+  onEnd: () => void;
+  onResume: (s: Session) => void;
+  onEdit: (s: Session) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [sort, setSort] = useState<{ key: SortKey; dir: SortDir }>({ key: 'start', dir: 'desc' });
+  const [page, setPage] = useState(0);
+  const rows = useMemo(() => sortSessions(sessions, sort.key, sort.dir, products, Date.now(), doseModel), [sessions, sort, products, doseModel]);
+  const gaps = useMemo(() => {
+    const map = new Map<string, number>();
+    chronology.forEach((s, i) => {
+      const gap = intervalSincePrevious(chronology, i);
+      if (gap !== undefined) map.set(s.id, gap);
+    });
+    return map;
+  }, [chronology]);
+  const pages = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+
+  // Back to the first page when the filter changes, but not when a listed session is edited.
+  useEffect(() => { setPage(0); }, [filter]);
+  useEffect(() => { if (page >= pages) setPage(pages - 1); }, [page, pages]);
+
+  function toggleSort(key: SortKey) {
+    setPage(0);
+    setSort(prev => prev.key === key ? { key, dir: prev.dir === 'asc' ? 'desc' : 'asc' } : { key, dir: key === 'start' ? 'desc' : 'asc' });
+  }
+
+  return (
+    <div className="card">
+      <table className="table">
+        <thead>
+          <tr>
+            {COLUMNS.map(c => (
+              <th key={c.label}>
+                {c.key ? (
+                  <button className="ghost" onClick={() => toggleSort(c.key!)} aria-sort={sort.key === c.key ? (sort.dir === 'asc' ? 'ascending' : 'descending') : undefined}>
+                    {c.label}{sort.key === c.key ? (sort.dir === 'asc' ? ' ▲' : ' ▼') : ''}
+                  </button>
+                ) : c.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 && (
+            <tr><td colSpan={COLUMNS.length} className="help">{chronology.length ? 'No sessions match the filters.' : 'No sessions yet. Start one above.'}</td></tr>
+          )}
+          {rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE).map(s => {
+            const duration = (s.endTime ?? Date.now()) - s.startTime;
+            const gap = gaps.get(s.id);
+            const cost = sessionCost(s, products);
+            return (
+              <tr key={s.id}>
+                <td>
+                  <div>{new Date(s.startTime).toLocaleString()}</div>
+                  <div className="help">{gap !== undefined ? `+${formatDuration(gap)} since prev` : ''}</div>
+                </td>
+                <td>{s.active ? <span className="badge">Active <SessionClock since={s.startTime} /></span> : <>{formatDuration(duration)}{s.autoClosed && <> <span className="badge warn">Auto-ended</span></>}</>}</td>
+                <td>{s.timeOfDay}</td>
+                <td>{(Math.round(computeSessionDose(s, doseModel)*1000)/1000).toFixed(3)}</td>
+                <td>
+                  <div>{s.social.numPeopleSharing ?? 1}</div>
+                  {s.social.participants && <div className="help">{participantsOf(s).map(id => profiles.find(p => p.id === id)?.name ?? '?').join(', ')}</div>}
+                </td>
+                <td>{s.effects.join(', ')}</td>
+                <td>{cost !== undefined ? cost.toFixed(2) : '—'}</td>
+                <td>
+                  <div className="toolbar">
+                    {s.active ? (
+                      <button className="secondary" onClick={onEnd}>End</button>
+                    ) : (
+                      <button onClick={() => onResume(s)}>Resume</button>
+                    )}
+                    <button className="ghost" onClick={() => onEdit(s)}>Edit</button>
+                    <button className="danger" onClick={() => onDelete(s.id)}>Delete</button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {pages > 1 && (
+        <div className="toolbar" style={{ marginTop: 8, alignItems: 'center' }}>
+          <button className="ghost" onClick={() => setPage(0)} disabled={page === 0}>« First</button>
+          <button className="ghost" onClick={() => setPage(p => p - 1)} disabled={page === 0}>‹ Prev</button>
+          <span className="help">Page {page + 1} of {pages} · {rows.length} sessions</span>
+          <button className="ghost" onClick={() => setPage(p => p + 1)} disabled={page >= pages - 1}>Next ›</button>
+          <button className="ghost" onClick={() => setPage(pages - 1)} disabled={page >= pages - 1}>Last »</button>
+        </div>
+      )}
+    </div>
+  );
+}
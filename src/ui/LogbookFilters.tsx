@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import type { Product, Session } from '../types';
+import { EMPTY_FILTER, filterOptions, isFilterActive, type LogFilter } from '../logFilter';
+
+const TIMES_OF_DAY = ['Morning', 'Afternoon', 'Evening', 'Night'] as const;
+
+export function LogbookFilters({ sessions, products, filter, onChange, matched }: {
+  sessions: Session[];
+  products: Product[];
+  filter: LogFilter;
+  onChange: (filter: LogFilter) => void;
+  matched: number;
+}) {
+  const options = useMemo(() => filterOptions(sessions), [sessions]);
+  const productName = (id: string) => products.find(p => p.id === id)?.name ?? 'Deleted product';
+  // Empty inputs clear the field rather than storing ''.
+  const set = <K extends keyof LogFilter>(key: K, value: LogFilter[K] | '') =>
+    onChange({ ...filter, [key]: value === '' ? undefined : value });
+
+  return (
+    <div className="card">
+      <div className="grid grid-3">
+        <label>Search notes
+          <input type="search" placeholder="Words in session or consumption notes" value={filter.search} onChange={e => onChange({ ...filter, search: e.target.value })} />
+        </label>
+        <label>From
+          <input type="date" value={filter.from ?? ''} onChange={e => set('from', e.target.value)} />
+        </label>
+        <label>To
+          <input type="date" value={filter.to ?? ''} onChange={e => set('to', e.target.value)} />
+        </label>
+        <label>Method
+          <select value={filter.method ?? ''} onChange={e => set('method', e.target.value)}>
+            <option value="">Any</option>
+            {options.methods.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </label>
+        <label>Product
+          <select value={filter.productId ?? ''} onChange={e => set('productId', e.target.value)}>
+            <option value="">Any</option>
+            {options.productIds.map(id => <option key={id} value={id}>{productName(id)}</option>)}
+          </select>
+        </label>
+        <label>Place
+          <select value={filter.place ?? ''} onChange={e => set('place', e.target.value)}>
+            <option value="">Any</option>
+            {options.places.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </label>
+        <label>Effect
+          <select value={filter.effect ?? ''} onChange={e => set('effect', e.target.value)}>
+            <option value="">Any</option>
+            {options.effects.map(e => <option key={e} value={e}>{e}</option>)}
+          </select>
+        </label>
+        <label>Tag
+          <select value={filter.tag ?? ''} onChange={e => set('tag', e.target.value)}>
+            <option value="">Any</option>
+            {options.tags.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </label>
+        <label>People
+          <select value={filter.people ?? ''} onChange={e => set('people', e.target.value as LogFilter['people'] | '')}>
+            <option value="">Any</option>
+            <option value="solo">Solo</option>
+            <option value="shared">Shared</option>
+          </select>
+        </label>
+        <label>Time of day
+          <select value={filter.timeOfDay ?? ''} onChange={e => set('timeOfDay', e.target.value as LogFilter['timeOfDay'] | '')}>
+            <option value="">Any</option>
+            {TIMES_OF_DAY.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </label>
+      </div>
+      {isFilterActive(filter) && (
+        <div className="toolbar" style={{ marginTop: 8, alignItems: 'center' }}>
+          <span className="help">{matched} of {sessions.length} sessions match. Analytics show only these too.</span>
+          <button className="ghost" onClick={() => onChange(EMPTY_FILTER)}>Clear Filters</button>
+        </div>
+      )}
+    </div>
+  );
+}
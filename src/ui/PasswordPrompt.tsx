@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+
+// Asks for a password; `onSubmit` throws to keep the prompt open with an error.
+export function PasswordPrompt({ title, help, submitLabel, confirmPassword, onSubmit, onCancel }: {
+  title: string;
+  help?: string;
+  submitLabel: string;
+  confirmPassword?: boolean; // ask twice, for new passwords
+  onSubmit: (password: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [password, setPassword] = useState('');
+  const [repeat, setRepeat] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (confirmPassword && password !== repeat) return setError('The passwords do not match.');
+    setBusy(true);
+    setError('');
+    try {
+      await onSubmit(password);
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form className="card" style={{ marginTop: 16 }} onSubmit={submit}>
+      <div className="section-title">
+        <h3>{title}</h3>
+        <div className="toolbar">
+          <button type="submit" disabled={busy || !password}>{busy ? 'Working…' : submitLabel}</button>
+          {onCancel && <button type="button" className="ghost" onClick={onCancel}>Cancel</button>}
+        </div>
+      </div>
+      {help && <div className="help">{help}</div>}
+      <div className="grid grid-2" style={{ marginTop: 8 }}>
+        <label>Password
+          <input type="password" autoFocus autoComplete={confirmPassword ? 'new-password' : 'current-password'} value={password} onChange={e => setPassword(e.target.value)} />
+        </label>
+        {confirmPassword && (
+          <label>Repeat password
+            <input type="password" autoComplete="new-password" value={repeat} onChange={e => setRepeat(e.target.value)} />
+          </label>
+        )}
+      </div>
+      {error && <div className="help error">{error}</div>}
+    </form>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import type { Session } from '../types';
+import { GEO_MODE_LABELS, retentionImpact, type GeoMode, type PrivacySettings, type Redaction } from '../privacy';
+
+const REDACTION_LABELS: Record<keyof Redaction, string> = {
+  geo: 'Location',
+  notes: 'Notes',
+  freeText: 'Free-text context (place, activity, mood, tags, …)'
+};
+
+export function PrivacyPanel({ settings, sessions, onSave, onClose }: {
+  settings: PrivacySettings;
+  sessions: Session[];
+  onSave: (settings: PrivacySettings) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(settings);
+  const [placeName, setPlaceName] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState('');
+
+  const affected = useMemo(() => retentionImpact(sessions, draft.retention, Date.now()), [sessions, draft.retention]);
+
+  function setRetention(patch: Partial<PrivacySettings['retention']>) {
+    setDraft(prev => ({ ...prev, retention: { ...prev.retention, ...patch } }));
+  }
+
+  function setRedaction(key: keyof Redaction, value: boolean) {
+    setDraft(prev => ({ ...prev, exportRedaction: { ...prev.exportRedaction, [key]: value } }));
+  }
+
+  function addCurrentPlace() {
+    const name = placeName.trim();
+    if (!name || !('geolocation' in navigator)) return;
+    setLocating(true);
+    setError('');
+    navigator.geolocation.getCurrentPosition(
+      pos => {
+        setDraft(prev => ({ ...prev, places: [...prev.places.filter(p => p.name !== name), { name, lat: pos.coords.latitude, lon: pos.coords.longitude }] }));
+        setPlaceName('');
+        setLocating(false);
+      },
+      err => { setError('Could not read your location: ' + err.message); setLocating(false); },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  }
+
+  function save() {
+    if (draft.retention.enabled && affected > 0) {
+      const verb = draft.retention.action === 'delete' ? 'permanently delete' : 'anonymize';
+      if (!confirm(`This will ${verb} ${affected} session(s) older than ${draft.retention.days} days, across every profile. Continue?`)) return;
+    }
+    onSave(draft);
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Privacy</h3>
+        <div className="toolbar">
+          <button onClick={save}>Save</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      <div className="grid grid-3">
+        <label>Location for new sessions
+          <select value={draft.geo} onChange={e => setDraft(prev => ({ ...prev, geo: e.target.value as GeoMode }))}>
+            {(Object.keys(GEO_MODE_LABELS) as GeoMode[]).map(m => <option key={m} value={m}>{GEO_MODE_LABELS[m]}</option>)}
+          </select>
+        </label>
+        {draft.geo === 'coarse' && (
+          <label>Grid size (km)
+            <input type="number" min="0.5" step="0.5" value={draft.gridKm} onChange={e => setDraft(prev => ({ ...prev, gridKm: Math.max(0.5, Number(e.target.value)) }))} />
+          </label>
+        )}
+        {draft.geo === 'place' && (
+          <label>Match radius (km)
+            <input type="number" min="0.1" step="0.1" value={draft.placeRadiusKm} onChange={e => setDraft(prev => ({ ...prev, placeRadiusKm: Math.max(0.1, Number(e.target.value)) }))} />
+          </label>
+        )}
+      </div>
+
+      {draft.geo === 'place' && (
+        <>
+          <div className="help" style={{ marginTop: 8 }}>
+            Your position is matched against these places and only the name is saved as the session's place. Positions outside every radius are discarded.
+          </div>
+          <div className="toolbar" style={{ marginTop: 8 }}>
+            <input value={placeName} onChange={e => setPlaceName(e.target.value)} placeholder="Place name, e.g. Home" style={{ maxWidth: 240 }} />
+            <button className="secondary" onClick={addCurrentPlace} disabled={locating || !placeName.trim()}>{locating ? 'Locating…' : 'Add Current Location'}</button>
+          </div>
+          {error && <div className="help error">{error}</div>}
+          {draft.places.length > 0 && (
+            <table className="table" style={{ marginTop: 8 }}>
+              <thead><tr><th>Place</th><th></th></tr></thead>
+              <tbody>
+                {draft.places.map(p => (
+                  <tr key={p.name}>
+                    <td>{p.name}</td>
+                    <td><button className="danger" onClick={() => setDraft(prev => ({ ...prev, places: prev.places.filter(o => o.name !== p.name) }))}>Remove</button></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+
+      <hr className="sep" />
+      <h3>Retention</h3>
+      <div className="grid grid-3">
+        <label><input type="checkbox" style={{ width: 'auto' }} checked={draft.retention.enabled} onChange={e => setRetention({ enabled: e.target.checked })} /> Apply automatically</label>
+        <label>Older than (days)
+          <input type="number" min="1" step="1" value={draft.retention.days} onChange={e => setRetention({ days: Math.max(1, Math.round(Number(e.target.value))) })} />
+        </label>
+        <label>Action
+          <select value={draft.retention.action} onChange={e => setRetention({ action: e.target.value as 'delete' | 'anonymize' })}>
+            <option value="anonymize">Anonymize (drop location, notes and free text)</option>
+            <option value="delete">Delete</option>
+          </select>
+        </label>
+      </div>
+      <div className="help">
+        {affected} session(s) across every profile currently fall under this rule. The rule also applies to backup snapshots and quarantined data.
+      </div>
+
+      <hr className="sep" />
+      <h3>Exports</h3>
+      <div className="help">Strip these fields from JSON and CSV exports.</div>
+      <div className="toolbar">
+        {(Object.keys(REDACTION_LABELS) as (keyof Redaction)[]).map(k => (
+          <label key={k}><input type="checkbox" style={{ width: 'auto' }} checked={draft.exportRedaction[k]} onChange={e => setRedaction(k, e.target.checked)} /> {REDACTION_LABELS[k]}</label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import { DEFAULT_PROFILE_ID, DEFAULT_PROFILES, type Profile } from '../profiles';
+import { usePersistentValue } from './usePersistentValue';
+
+export type ProfileControls = {
+  profiles: Profile[];
+  active: Profile;
+  switchTo: (id: string) => void;
+  onProfilesChange: (profiles: Profile[]) => void;
+};
+
+// Loads the household's profiles and remounts the app whenever the active one changes,
+// so every per-profile setting is read fresh under that profile's keys.
+export function ProfileGate({ children }: { children: (profiles: ProfileControls) => React.ReactNode }) {
+  const [profiles, setProfiles, profilesReady] = usePersistentValue('profiles', DEFAULT_PROFILES);
+  const [activeId, setActiveId, activeReady] = usePersistentValue('activeProfile', DEFAULT_PROFILE_ID);
+  if (!profilesReady || !activeReady) return null;
+  const active = profiles.find(p => p.id === activeId) ?? profiles[0];
+  return (
+    <React.Fragment key={active.id}>
+      {children({ profiles, active, switchTo: setActiveId, onProfilesChange: setProfiles })}
+    </React.Fragment>
+  );
+}
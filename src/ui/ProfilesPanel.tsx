@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { Session } from '../types';
+import { generateId } from '../utils';
+import { DEFAULT_PROFILE_ID, ownerOf, type Profile } from '../profiles';
+
+export function ProfilesPanel({ profiles, activeId, sessions, onSave, onSwitch, onClose }: {
+  profiles: Profile[];
+  activeId: string;
+  sessions: Session[]; // every profile's sessions
+  onSave: (profiles: Profile[], removed: string[]) => void;
+  onSwitch: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(profiles);
+  const [newName, setNewName] = useState('');
+  const removed = profiles.filter(p => !draft.some(d => d.id === p.id)).map(p => p.id);
+  const errors = draft.some(p => !p.name.trim()) ? ['Every profile needs a name'] : [];
+
+  function rename(id: string, name: string) {
+    setDraft(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  }
+
+  function add() {
+    if (!newName.trim()) return;
+    setDraft(prev => [...prev, { id: generateId('u'), name: newName.trim() }]);
+    setNewName('');
+  }
+
+  function save() {
+    const lost = sessions.filter(s => removed.includes(ownerOf(s))).length;
+    if (removed.length && !confirm(`Remove ${removed.length} profile(s)? Their ${lost} session(s) and settings are deleted, and they are taken out of other people's group sessions.`)) return;
+    onSave(draft.map(p => ({ ...p, name: p.name.trim() })), removed);
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Profiles</h3>
+        <div className="toolbar">
+          <button onClick={save} disabled={errors.length > 0}>Save</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="help">Everyone sharing this device can have a profile with their own sessions, tolerance, goals and dose model. The inventory, vocabulary, privacy settings and passcode are shared.</div>
+      {errors.length > 0 && <div className="help error">{errors.join('; ')}</div>}
+      <table className="table" style={{ marginTop: 8 }}>
+        <thead><tr><th>Name</th><th>Sessions</th><th></th></tr></thead>
+        <tbody>
+          {draft.map(p => (
+            <tr key={p.id}>
+              <td><input value={p.name} onChange={e => rename(p.id, e.target.value)} /></td>
+              <td>{sessions.filter(s => ownerOf(s) === p.id).length}</td>
+              <td>
+                <div className="toolbar">
+                  {p.id === activeId
+                    ? <span className="badge">Active</span>
+                    : profiles.some(x => x.id === p.id) && <button className="ghost" onClick={() => onSwitch(p.id)}>Switch To</button>}
+                  {p.id !== activeId && p.id !== DEFAULT_PROFILE_ID && (
+                    <button className="danger" onClick={() => setDraft(prev => prev.filter(x => x.id !== p.id))}>Remove</button>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="toolbar" style={{ marginTop: 8 }}>
+        <input value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') add(); }} placeholder="Name" style={{ width: 'auto' }} />
+        <button className="secondary" onClick={add} disabled={!newName.trim()}>Add Profile</button>
+      </div>
+    </div>
+  );
+}
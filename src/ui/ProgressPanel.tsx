@@ -0,0 +1,45 @@
+import React from 'react';
+import { activeBreak, type DayAdherence, type Goals, type Progress } from '../goals';
+import { formatDuration } from '../utils';
+
+export function ProgressPanel({ goals, progress, adherence, now }: {
+  goals: Goals;
+  progress: Progress;
+  adherence: DayAdherence[];
+  now: number;
+}) {
+  const brk = activeBreak(goals, now);
+  const next = goals.breaks.find(b => b.start > now);
+  const compliant = adherence.filter(d => d.violations.length === 0).length;
+
+  return (
+    <div className="card">
+      <div className="kpi">
+        <div className="item">
+          <div className="label">Since Last Session</div>
+          <div className="value">{progress.msSinceLastSession !== undefined ? formatDuration(progress.msSinceLastSession) : '—'}</div>
+          <div className="help">{progress.abstinenceStreakDays} day(s) without a session</div>
+        </div>
+        <div className="item">
+          <div className="label">Within Limits</div>
+          <div className="value">{progress.adherenceStreakDays} day streak</div>
+          <div className="help">{compliant} of last {adherence.length} days</div>
+        </div>
+        <div className="item">
+          <div className="label">Tolerance Break</div>
+          <div className="value">{brk ? `${Math.ceil((brk.end - now) / 86400000)} days left` : next ? `starts ${new Date(next.start).toLocaleDateString()}` : 'none planned'}</div>
+          <div className="help">Longest gap so far: {formatDuration(progress.longestBreakMs)}</div>
+        </div>
+      </div>
+      <div className="adherence" title="Daily adherence, oldest to newest">
+        {adherence.map(d => (
+          <div
+            key={d.day}
+            className={`day ${d.violations.length ? 'missed' : d.sessions ? 'ok' : 'clean'}`}
+            title={`${new Date(d.day).toLocaleDateString()}: ${d.sessions} session(s), ${d.grams.toFixed(2)} g, ${d.doseMg.toFixed(1)} mg${d.violations.length ? ' – over: ' + d.violations.join(', ') : ''}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
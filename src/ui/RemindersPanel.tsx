@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { REMINDER_LABELS, reminderText, type Reminder, type ReminderContext, type ReminderKind, type ReminderSettings } from '../reminders';
+
+type SettingsGroup = Exclude<keyof ReminderSettings, 'snoozeMinutes'>;
+
+// The reminders that are due, each with its own Snooze and Dismiss.
+export function ReminderNotices({ due, ctx, snoozeMinutes, onSnooze, onDismiss, onEndSession }: {
+  due: Reminder[];
+  ctx: ReminderContext;
+  snoozeMinutes: number;
+  onSnooze: (r: Reminder) => void;
+  onDismiss: (r: Reminder) => void;
+  onEndSession: () => void;
+}) {
+  const now = Date.now();
+  return (
+    <>
+      {due.map(r => {
+        const { title, body } = reminderText(r, ctx, now);
+        return (
+          <div key={`${r.kind}-${r.key}`} className="card notice" style={{ marginTop: 16 }}>
+            <div><strong>{title}.</strong> {body}</div>
+            <div className="toolbar">
+              {r.kind === 'longSession' && <button onClick={() => { onEndSession(); onDismiss(r); }}>End Session</button>}
+              <button className="secondary" onClick={() => onSnooze(r)}>Snooze {snoozeMinutes} min</button>
+              <button className="ghost" onClick={() => onDismiss(r)}>Dismiss</button>
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+export function RemindersPanel({ settings, onSave, onClose }: {
+  settings: ReminderSettings;
+  onSave: (settings: ReminderSettings) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(settings);
+  const [permission, setPermission] = useState(() => typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+
+  function update<K extends SettingsGroup>(key: K, patch: Partial<ReminderSettings[K]>) {
+    setDraft(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  }
+
+  function enable(kind: ReminderKind) {
+    return (
+      <label><input type="checkbox" style={{ width: 'auto' }} checked={draft[kind].enabled} onChange={e => update(kind, { enabled: e.target.checked })} /> {REMINDER_LABELS[kind]}</label>
+    );
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Reminders</h3>
+        <div className="toolbar">
+          {permission === 'default' && <button className="ghost" onClick={() => Notification.requestPermission().then(setPermission)}>Enable Notifications</button>}
+          <button onClick={() => onSave(draft)}>Save</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="help">
+        Reminders show here and, while the app is open in the background, as notifications. They are only checked while the app is open in a tab or window; with it closed, nothing is shown until you open it again.
+        {permission === 'denied' && ' Notifications are blocked in your browser settings.'}
+        {permission === 'unsupported' && ' This browser does not support notifications.'}
+      </div>
+      <div className="grid grid-2" style={{ marginTop: 8 }}>
+        {enable('longSession')}
+        <label>Remind after (hours)
+          <input type="number" min="0.5" step="0.5" value={draft.longSession.hours} onChange={e => update('longSession', { hours: Math.max(0.5, Number(e.target.value)) })} />
+        </label>
+        {enable('breakEnding')}
+        <label>Hours before the break ends
+          <input type="number" min="1" step="1" value={draft.breakEnding.hoursBefore} onChange={e => update('breakEnding', { hoursBefore: Math.max(1, Number(e.target.value)) })} />
+        </label>
+        {enable('sinceLastDose')}
+        <label>Hours since the last dose
+          <input type="number" min="1" step="1" value={draft.sinceLastDose.hours} onChange={e => update('sinceLastDose', { hours: Math.max(1, Number(e.target.value)) })} />
+        </label>
+        {enable('journal')}
+        <label>Every day at
+          <input type="time" value={draft.journal.time} onChange={e => update('journal', { time: e.target.value || settings.journal.time })} />
+        </label>
+      </div>
+
+      <h3 style={{ marginTop: 16 }}>Quiet Hours & Snooze</h3>
+      <div className="help">Reminders that fall due in the quiet hours wait until they end.</div>
+      <div className="grid grid-3" style={{ marginTop: 8 }}>
+        <label><input type="checkbox" style={{ width: 'auto' }} checked={draft.quietHours.enabled} onChange={e => update('quietHours', { enabled: e.target.checked })} /> Quiet hours</label>
+        <label>From
+          <input type="time" value={draft.quietHours.start} onChange={e => update('quietHours', { start: e.target.value || settings.quietHours.start })} />
+        </label>
+        <label>Until
+          <input type="time" value={draft.quietHours.end} onChange={e => update('quietHours', { end: e.target.value || settings.quietHours.end })} />
+        </label>
+        <label>Snooze for (minutes)
+          <input type="number" min="5" step="5" value={draft.snoozeMinutes} onChange={e => setDraft(prev => ({ ...prev, snoozeMinutes: Math.max(5, Number(e.target.value)) }))} />
+        </label>
+      </div>
+    </div>
+  );
+}
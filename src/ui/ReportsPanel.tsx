@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import type { Product, Session } from '../types';
+import type { DoseModel } from '../doseModel';
+import { formatChange, percentChange, periodReport, periodStart, reportHtml, shiftPeriod, type PeriodKind } from '../reports';
+import { downloadText, formatDuration } from '../utils';
+
+// More use is shown in amber and less in green; `invert` flips that for measures like the gap between sessions.
+function Change({ current, previous, invert }: { current?: number; previous?: number; invert?: boolean }) {
+  const pct = percentChange(current, previous);
+  const more = pct !== undefined && (invert ? pct < 0 : pct > 0);
+  const cls = pct === undefined || Math.abs(pct) < 1 ? 'help' : more ? 'help change up' : 'help change down';
+  return <div className={cls}>{formatChange(current, previous)} vs previous</div>;
+}
+
+export function ReportsPanel({ sessions, products, doseModel, kind, start, onChange }: {
+  sessions: Session[];
+  products: Product[];
+  doseModel: DoseModel;
+  kind: PeriodKind;
+  start: number;
+  onChange: (kind: PeriodKind, start: number) => void;
+}) {
+  const report = useMemo(() => periodReport(sessions, products, kind, start, doseModel), [sessions, products, kind, start, doseModel]);
+  const prev = report.previous;
+  const isCurrent = start === periodStart(kind, Date.now());
+
+  function print() {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(reportHtml(report, doseModel));
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+
+  function download() {
+    downloadText(`weed_report_${kind}_${new Date(start).toISOString().slice(0, 10)}.html`, reportHtml(report, doseModel), 'text/html');
+  }
+
+  return (
+    <div className="card">
+      <div className="section-title">
+        <h3>{report.label}</h3>
+        <div className="toolbar">
+          {(['week', 'month'] as PeriodKind[]).map(k => (
+            <button key={k} className={kind === k ? '' : 'ghost'} onClick={() => onChange(k, periodStart(k, start))}>{k === 'week' ? 'Weekly' : 'Monthly'}</button>
+          ))}
+          <button className="ghost" onClick={() => onChange(kind, shiftPeriod(kind, start, -1))}>‹ Prev</button>
+          <button className="ghost" onClick={() => onChange(kind, shiftPeriod(kind, start, 1))} disabled={isCurrent}>Next ›</button>
+          <button className="secondary" onClick={print}>Print / PDF</button>
+          <button className="ghost" onClick={download}>Download HTML</button>
+        </div>
+      </div>
+
+      <div className="kpi">
+        <div className="item">
+          <div className="label">Total Dose</div>
+          <div className="value">{report.doseMg.toFixed(1)} mg</div>
+          <Change current={report.doseMg} previous={prev.doseMg} />
+        </div>
+        <div className="item">
+          <div className="label">Sessions</div>
+          <div className="value">{report.sessions}</div>
+          <Change current={report.sessions} previous={prev.sessions} />
+        </div>
+        <div className="item">
+          <div className="label">Average Gap</div>
+          <div className="value">{report.avgGapMs !== undefined ? formatDuration(report.avgGapMs) : '—'}</div>
+          <Change current={report.avgGapMs} previous={prev.avgGapMs} invert />
+        </div>
+      </div>
+      <div className="grid grid-2" style={{ marginTop: 12 }}>
+        <div>
+          <div className="label help">Top effects</div>
+          <div>{report.topEffects.length ? report.topEffects.map(e => `${e.effect} (${e.count})`).join(', ') : 'None recorded'}</div>
+        </div>
+        <div>
+          <div className="label help">Spend</div>
+          <div>{report.spend !== undefined ? report.spend.toFixed(2) : 'Unknown'}{prev.spend !== undefined && <span className="help"> (previous {prev.spend.toFixed(2)})</span>}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { unlockPasscode, type PasscodeConfig } from '../crypto';
+import { broadcastMetaChange, openSessionDb, setMeta } from '../db';
+import { changePasscode } from '../storage';
+
+const DEFAULT_IDLE_MINUTES = 5;
+
+export function SecurityPanel({ config, onChange, onLock, onClose }: {
+  config?: PasscodeConfig;
+  onChange: (config: PasscodeConfig | undefined) => void;
+  onLock: () => void;
+  onClose: () => void;
+}) {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [repeat, setRepeat] = useState('');
+  const [idleMinutes, setIdleMinutes] = useState(config?.idleMinutes ?? DEFAULT_IDLE_MINUTES);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean }>();
+
+  async function run(action: () => Promise<string>) {
+    setBusy(true);
+    setMessage(undefined);
+    try {
+      setMessage({ text: await action() });
+      setCurrent('');
+      setNext('');
+      setRepeat('');
+    } catch (e) {
+      setMessage({ text: (e as Error).message, error: true });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function verifyCurrent() {
+    if (config) await unlockPasscode(config, current);
+  }
+
+  function savePasscode() {
+    return run(async () => {
+      if (next.length < 4) throw new Error('Use at least 4 characters.');
+      if (next !== repeat) throw new Error('The new passcodes do not match.');
+      await verifyCurrent();
+      onChange(await changePasscode(next, idleMinutes));
+      return config ? 'Passcode changed and data re-encrypted.' : 'Passcode set. Your data is now encrypted.';
+    });
+  }
+
+  function removePasscode() {
+    if (!confirm('Remove the passcode? Your data will be stored unencrypted on this device.')) return;
+    return run(async () => {
+      await verifyCurrent();
+      onChange(await changePasscode('', idleMinutes));
+      return 'Passcode removed. Data is stored unencrypted.';
+    });
+  }
+
+  function saveIdle() {
+    if (!config) return;
+    return run(async () => {
+      const updated = { ...config, idleMinutes };
+      const db = await openSessionDb();
+      await setMeta(db, 'passcode', updated);
+      broadcastMetaChange('passcode');
+      onChange(updated);
+      return idleMinutes ? `Locks after ${idleMinutes} idle minutes.` : 'Idle lock disabled.';
+    });
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Passcode &amp; Encryption</h3>
+        <div className="toolbar">
+          {config && <button className="secondary" onClick={onLock}>Lock Now</button>}
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="help">
+        {config
+          ? 'Sessions, consumptions, settings and snapshots are encrypted on this device (AES-GCM, key derived from your passcode with PBKDF2).'
+          : 'Set a passcode to encrypt everything stored on this device and lock the app on launch. There is no way to recover a forgotten passcode.'}
+      </div>
+
+      <div className="grid grid-3" style={{ marginTop: 8 }}>
+        {config && (
+          <label>Current passcode
+            <input type="password" autoComplete="current-password" value={current} onChange={e => setCurrent(e.target.value)} />
+          </label>
+        )}
+        <label>{config ? 'New passcode' : 'Passcode'}
+          <input type="password" autoComplete="new-password" value={next} onChange={e => setNext(e.target.value)} />
+        </label>
+        <label>Repeat
+          <input type="password" autoComplete="new-password" value={repeat} onChange={e => setRepeat(e.target.value)} />
+        </label>
+        <label>Lock after idle (minutes, 0 = never)
+          <input type="number" min="0" step="1" value={idleMinutes} onChange={e => setIdleMinutes(Math.max(0, Number(e.target.value)))} />
+        </label>
+      </div>
+
+      <div className="toolbar" style={{ marginTop: 8 }}>
+        <button onClick={savePasscode} disabled={busy || !next}>{config ? 'Change Passcode' : 'Set Passcode'}</button>
+        {config && <button className="secondary" onClick={saveIdle} disabled={busy || idleMinutes === config.idleMinutes}>Save Idle Timeout</button>}
+        {config && <button className="danger" onClick={removePasscode} disabled={busy}>Remove Passcode</button>}
+      </div>
+      {busy && <div className="help">Re-encrypting…</div>}
+      {message && <div className={message.error ? 'help error' : 'help'}>{message.text}</div>}
+    </div>
+  );
+}
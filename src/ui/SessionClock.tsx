@@ -0,0 +1,23 @@
+import React, { useEffect } from 'react';
+import { formatDuration } from '../utils';
+import { useNow } from './useNow';
+
+// Elapsed time since `since`, ticking on its own so the rest of the app does not re-render.
+// With `inTitle` it also shows the duration in the window title, which stays visible when
+// the installed app is in the background.
+export function SessionClock({ since, inTitle }: { since: number; inTitle?: boolean }) {
+  const now = useNow(1000);
+  const text = formatDuration(Math.max(0, now - since));
+
+  useEffect(() => {
+    if (!inTitle) return;
+    const original = document.title;
+    return () => { document.title = original; };
+  }, [inTitle]);
+
+  useEffect(() => {
+    if (inTitle) document.title = `${text} · Weed Session Manager`;
+  }, [inTitle, text]);
+
+  return <>{text}</>;
+}
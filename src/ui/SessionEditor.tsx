@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import type { ConsumptionEvent, Product, Session, UserState } from '../types';
+import { eventShare, generateId, getTimeOfDay, toLocalDateTimeInputValue } from '../utils';
+import { ownerOf, participantsOf, type Profile } from '../profiles';
+import { validateSessionEdit } from '../validation';
+import { CONTEXT_FIELDS, parseTags, type Vocabulary } from '../vocabulary';
+import { EffectOptions, TagInput, TermInput } from './TermInput';
+
+const USER_FIELDS: (keyof UserState)[] = ['lastMeal', 'mood', 'intention'];
+
+function label(key: string): string {
+  return key.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+}
+
+function parseDateTime(value: string): number | undefined {
+  const t = new Date(value).getTime();
+  return Number.isFinite(t) ? t : undefined;
+}
+
+export function newPastSession(now = Date.now()): Session {
+  const start = now - 2 * 3600 * 1000;
+  return {
+    id: generateId(),
+    startTime: start,
+    endTime: now - 3600 * 1000,
+    active: false,
+    timeOfDay: getTimeOfDay(new Date(start)),
+    baseSubstance: { type: '' },
+    context: {},
+    social: { numPeopleSharing: 1 },
+    user: {},
+    supplements: [],
+    effects: [],
+    notes: '',
+    consumptions: []
+  };
+}
+
+export function SessionEditor({ session, sessions, products, vocabulary, tags, profiles, isNew, onSave, onCancel }: {
+  session: Session;
+  sessions: Session[];
+  products: Product[];
+  vocabulary: Vocabulary;
+  tags: string[]; // suggestions: the vocabulary's tags and any others in use
+  profiles: Profile[];
+  isNew: boolean;
+  onSave: (session: Session) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<Session>(session);
+  const [supplements, setSupplements] = useState(session.supplements.join(', '));
+  const [tagText, setTagText] = useState(session.tags?.join(', ') ?? '');
+  const methods = vocabulary.methods;
+  const candidate: Session = {
+    ...draft,
+    timeOfDay: getTimeOfDay(new Date(draft.startTime)),
+    supplements: supplements.split(',').map(s => s.trim()).filter(Boolean),
+    tags: parseTags(tagText),
+    consumptions: [...draft.consumptions].sort((a, b) => a.timestamp - b.timestamp)
+  };
+  const errors = validateSessionEdit(candidate, sessions);
+
+  function update(patch: Partial<Session>) { setDraft(prev => ({ ...prev, ...patch })); }
+
+  function updateEvent(id: string, patch: Partial<ConsumptionEvent>) {
+    setDraft(prev => ({ ...prev, consumptions: prev.consumptions.map(ev => ev.id === id ? { ...ev, ...patch } : ev) }));
+  }
+
+  function addEvent() {
+    const last = draft.consumptions[draft.consumptions.length - 1];
+    const ev: ConsumptionEvent = {
+      id: generateId('c'),
+      timestamp: last ? last.timestamp : draft.startTime,
+      weightGrams: last?.weightGrams ?? 0.25,
+      thcPercent: last?.thcPercent ?? 20,
+      method: last?.method ?? methods[0],
+      productId: last?.productId
+    };
+    setDraft(prev => ({ ...prev, consumptions: [...prev.consumptions, ev] }));
+  }
+
+  function setParticipant(id: string, on: boolean) {
+    setDraft(prev => {
+      const participants = on ? [...participantsOf(prev), id] : participantsOf(prev).filter(p => p !== id);
+      return {
+        ...prev,
+        social: {
+          ...prev.social,
+          participants: participants.length > 1 ? participants : undefined,
+          numPeopleSharing: Math.max(prev.social.numPeopleSharing ?? 1, participants.length)
+        },
+        // A share only makes sense for someone taking part.
+        consumptions: on ? prev.consumptions : prev.consumptions.map(ev => {
+          if (ev.shares?.[id] === undefined) return ev;
+          const { [id]: _removed, ...shares } = ev.shares;
+          return { ...ev, shares: Object.keys(shares).length ? shares : undefined };
+        })
+      };
+    });
+  }
+
+  // An empty input clears the share, leaving that person an even split of the rest.
+  function setShare(evId: string, profileId: string, percent: string) {
+    setDraft(prev => ({
+      ...prev,
+      consumptions: prev.consumptions.map(ev => {
+        if (ev.id !== evId) return ev;
+        const { [profileId]: _old, ...shares } = ev.shares ?? {};
+        if (percent !== '') shares[profileId] = Math.max(0, Math.min(100, Number(percent))) / 100;
+        return { ...ev, shares: Object.keys(shares).length ? shares : undefined };
+      })
+    }));
+  }
+
+  function removeEvent(id: string) {
+    setDraft(prev => ({ ...prev, consumptions: prev.consumptions.filter(ev => ev.id !== id) }));
+  }
+
+  function setEnd(value: string) {
+    const end = value ? parseDateTime(value) : undefined;
+    update({ endTime: end, active: end === undefined });
+  }
+
+  const participants = participantsOf(draft);
+  const grouped = participants.length > 1;
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.name ?? 'Removed profile';
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>{isNew ? 'Add Past Session' : 'Edit Session'}</h3>
+        <div className="toolbar">
+          <button onClick={() => onSave(candidate)} disabled={errors.length > 0}>Save</button>
+          <button className="ghost" onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+      {errors.length > 0 && <div className="help error">{errors.join('; ')}</div>}
+
+      <div className="grid grid-3" style={{ marginTop: 8 }}>
+        <label>Start
+          <input type="datetime-local" value={toLocalDateTimeInputValue(new Date(draft.startTime))}
+            onChange={e => { const t = parseDateTime(e.target.value); if (t !== undefined) update({ startTime: t }); }} />
+        </label>
+        <label>End (empty while active)
+          <input type="datetime-local" value={draft.endTime !== undefined ? toLocalDateTimeInputValue(new Date(draft.endTime)) : ''} onChange={e => setEnd(e.target.value)} />
+        </label>
+        <label>Type
+          <input value={draft.baseSubstance?.type ?? ''} onChange={e => update({ baseSubstance: { ...draft.baseSubstance, type: e.target.value } })} placeholder="Strain or Product" />
+        </label>
+        {CONTEXT_FIELDS.map(k => (
+          <label key={k}>{label(k)}
+            <TermInput value={draft.context[k] ?? ''} terms={vocabulary.context[k]} onChange={v => update({ context: { ...draft.context, [k]: v } })} />
+          </label>
+        ))}
+        <label>People Sharing
+          <input type="number" min="1" step="1" value={draft.social.numPeopleSharing ?? 1} onChange={e => update({ social: { ...draft.social, numPeopleSharing: Math.max(1, Number(e.target.value)) } })} />
+        </label>
+        {profiles.length > 1 && (
+          <div>
+            <div className="help">Profiles taking part</div>
+            <div className="toolbar">
+              {profiles.map(p => (
+                <label key={p.id}>
+                  <input type="checkbox" style={{ width: 'auto' }} checked={participants.includes(p.id)} disabled={p.id === ownerOf(draft)}
+                    onChange={e => setParticipant(p.id, e.target.checked)} /> {p.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+        {USER_FIELDS.map(k => (
+          <label key={k}>{label(k)}
+            <input value={draft.user[k] ?? ''} onChange={e => update({ user: { ...draft.user, [k]: e.target.value } })} />
+          </label>
+        ))}
+        <label>Supplements (comma separated)
+          <input value={supplements} onChange={e => setSupplements(e.target.value)} />
+        </label>
+        <label>Effects
+          <select multiple value={draft.effects} onChange={e => update({ effects: Array.from(e.target.selectedOptions).map(o => o.value) })}>
+            <EffectOptions effects={vocabulary.effects} selected={draft.effects} />
+          </select>
+        </label>
+        <label>Tags (comma separated)
+          <TagInput value={tagText} tags={tags} onChange={setTagText} />
+        </label>
+        <label>Notes
+          <textarea value={draft.notes ?? ''} onChange={e => update({ notes: e.target.value })} />
+        </label>
+      </div>
+
+      <hr className="sep" />
+      <div className="section-title">
+        <h3>Consumptions</h3>
+        <button className="secondary" onClick={addEvent}>Add Consumption</button>
+      </div>
+      <table className="table">
+        <thead><tr><th>Time</th><th>Weight (g)</th><th>THC (%)</th><th>Method</th><th>Product</th>{grouped && <th>Shares (%)</th>}<th>Notes</th><th></th></tr></thead>
+        <tbody>
+          {draft.consumptions.length === 0 && <tr><td colSpan={grouped ? 8 : 7} className="help">No consumptions logged.</td></tr>}
+          {draft.consumptions.map(ev => (
+            <tr key={ev.id}>
+              <td><input type="datetime-local" value={toLocalDateTimeInputValue(new Date(ev.timestamp))}
+                onChange={e => { const t = parseDateTime(e.target.value); if (t !== undefined) updateEvent(ev.id, { timestamp: t }); }} /></td>
+              <td><input type="number" min="0" step="0.01" value={ev.weightGrams} onChange={e => updateEvent(ev.id, { weightGrams: Number(e.target.value) })} /></td>
+              <td><input type="number" min="0" max="100" step="0.1" value={ev.thcPercent} onChange={e => updateEvent(ev.id, { thcPercent: Number(e.target.value) })} /></td>
+              <td>
+                <select value={ev.method} onChange={e => updateEvent(ev.id, { method: e.target.value })}>
+                  {[...new Set([...methods, ev.method])].map(m => <option key={m}>{m}</option>)}
+                </select>
+              </td>
+              <td>
+                <select value={ev.productId ?? ''} onChange={e => updateEvent(ev.id, { productId: e.target.value || undefined })}>
+                  <option value="">—</option>
+                  {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </td>
+              {grouped && (
+                <td>
+                  {participants.map(p => (
+                    <label key={p}>{profileName(p)}
+                      <input type="number" min="0" max="100" step="1" value={ev.shares?.[p] !== undefined ? Math.round(ev.shares[p] * 1000) / 10 : ''}
+                        placeholder={String(Math.round(eventShare(ev, draft.social.numPeopleSharing, p) * 1000) / 10)}
+                        onChange={e => setShare(ev.id, p, e.target.value)} />
+                    </label>
+                  ))}
+                </td>
+              )}
+              <td><input value={ev.notes ?? ''} onChange={e => updateEvent(ev.id, { notes: e.target.value || undefined })} /></td>
+              <td><button className="danger" onClick={() => removeEvent(ev.id)}>Remove</button></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { SyncSettings } from '../sync';
+import type { SyncStatus } from './useSync';
+
+function describe(status: SyncStatus): string {
+  const waiting = status.pending ? ` · ${status.pending} change(s) waiting` : '';
+  switch (status.phase) {
+    case 'off': return 'Sync off';
+    case 'syncing': return 'Syncing…';
+    case 'offline': return 'Offline' + waiting;
+    case 'error': return 'Sync failed' + waiting;
+    default: return (status.lastSyncedAt ? `Synced ${new Date(status.lastSyncedAt).toLocaleTimeString()}` : 'Not synced yet') + waiting;
+  }
+}
+
+// A compact status for the header; hidden until sync is set up.
+export function SyncBadge({ status, onClick }: { status: SyncStatus; onClick: () => void }) {
+  if (status.phase === 'off') return null;
+  const warn = status.phase === 'error' || status.phase === 'offline';
+  return (
+    <button className="ghost" onClick={onClick} title={status.error}>
+      <span className={warn ? 'badge warn' : 'badge'}>{describe(status)}</span>
+    </button>
+  );
+}
+
+export function SyncPanel({ settings, status, onSave, onSyncNow, onResend, onClose }: {
+  settings: SyncSettings;
+  status: SyncStatus;
+  onSave: (settings: SyncSettings) => void;
+  onSyncNow: () => void;
+  onResend: () => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(settings);
+  const url = draft.url.trim();
+  const error = draft.enabled && !url ? 'Enter the server address'
+    : url && !/^https?:\/\/\S+$/i.test(url) ? 'The server address must start with http:// or https://'
+    : draft.enabled && !draft.token ? 'Enter the token the server was started with'
+    : draft.enabled && draft.passphrase.length < 8 ? 'Choose an encryption passphrase of at least 8 characters'
+    : '';
+
+  function resend() {
+    if (!confirm('Upload every session on this device again and download everything from the server? Where both changed a record, the latest edit still wins.')) return;
+    onResend();
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Sync</h3>
+        <div className="toolbar">
+          <button onClick={() => onSave({ ...draft, url })} disabled={!!error}>Save</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="help">
+        Keeps sessions and profiles in step across your devices through a server you run yourself. Each session and consumption is merged separately, and the latest edit wins.
+        Changes made offline are sent when the device is back online. Everything is encrypted with the passphrase before it is sent, so the server never sees your sessions;
+        the first device to sync sets it for the server, and the others must use the same one. To change it, start the server with a new data file.
+      </div>
+      <div className="grid grid-2" style={{ marginTop: 8 }}>
+        <label><input type="checkbox" style={{ width: 'auto' }} checked={draft.enabled} onChange={e => setDraft(prev => ({ ...prev, enabled: e.target.checked }))} /> Sync this device</label>
+        <label>Server
+          <input value={draft.url} onChange={e => setDraft(prev => ({ ...prev, url: e.target.value }))} placeholder="http://localhost:8787" />
+        </label>
+        <label>Token
+          <input type="password" value={draft.token} onChange={e => setDraft(prev => ({ ...prev, token: e.target.value }))} placeholder="SYNC_TOKEN on the server" autoComplete="off" />
+        </label>
+        <label>Encryption passphrase
+          <input type="password" value={draft.passphrase} onChange={e => setDraft(prev => ({ ...prev, passphrase: e.target.value }))} autoComplete="new-password" />
+        </label>
+      </div>
+      {error && <div className="help error">{error}</div>}
+      <div className="toolbar" style={{ marginTop: 8 }}>
+        <span className={status.phase === 'error' ? 'badge warn' : 'badge'}>{describe(status)}</span>
+        {status.error && status.phase !== 'idle' && <span className="help error">{status.error}</span>}
+        <button className="secondary" onClick={onSyncNow} disabled={status.phase === 'off' || status.phase === 'syncing'}>Sync Now</button>
+        <button className="ghost" onClick={resend} disabled={status.phase === 'off'}>Re-upload Everything</button>
+      </div>
+    </div>
+  );
+}
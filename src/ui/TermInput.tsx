@@ -0,0 +1,68 @@
+import React, { useId } from 'react';
+import { VALENCE_LABELS, type EffectTerm, type Valence } from '../vocabulary';
+
+// A text input that suggests the vocabulary's terms but still accepts anything.
+export function TermInput({ value, terms, onChange, placeholder }: {
+  value: string;
+  terms: string[];
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  const id = useId();
+  return (
+    <>
+      <input list={id} value={value} onChange={e => onChange(e.target.value)} placeholder={placeholder} />
+      <datalist id={id}>{terms.map(t => <option key={t} value={t} />)}</datalist>
+    </>
+  );
+}
+
+// Comma-separated tags, with the known tags that match the word being typed offered below.
+export function TagInput({ value, tags, onChange, placeholder }: {
+  value: string;
+  tags: string[];
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  const parts = value.split(',');
+  const typing = parts[parts.length - 1].trim().toLowerCase();
+  const entered = parts.slice(0, -1).map(p => p.trim());
+  const suggestions = tags.filter(t => !entered.includes(t) && t.toLowerCase().startsWith(typing) && t.toLowerCase() !== typing).slice(0, 8);
+
+  function pick(tag: string) {
+    onChange([...entered, tag].join(', ') + ', ');
+  }
+
+  return (
+    <>
+      <input value={value} onChange={e => onChange(e.target.value)} placeholder={placeholder} />
+      {suggestions.length > 0 && (
+        <div className="toolbar" style={{ marginTop: 4 }}>
+          {suggestions.map(t => <button key={t} type="button" className="ghost" onClick={() => pick(t)}>{t}</button>)}
+        </div>
+      )}
+    </>
+  );
+}
+
+// <option>s grouped by valence, plus any selected effects the vocabulary no longer lists.
+export function EffectOptions({ effects, selected }: { effects: EffectTerm[]; selected: string[] }) {
+  const other = selected.filter(s => !effects.some(e => e.name === s));
+  return (
+    <>
+      {(Object.keys(VALENCE_LABELS) as Valence[]).map(v => {
+        const group = effects.filter(e => e.valence === v);
+        return group.length > 0 && (
+          <optgroup key={v} label={VALENCE_LABELS[v]}>
+            {group.map(e => <option key={e.name} value={e.name}>{e.name}</option>)}
+          </optgroup>
+        );
+      })}
+      {other.length > 0 && (
+        <optgroup label="Other">
+          {other.map(e => <option key={e} value={e}>{e}</option>)}
+        </optgroup>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { DEFAULT_TOLERANCE_SETTINGS, TOLERANCE_CURVE_LABELS, toleranceUnit, type ToleranceCurve, type ToleranceSettings } from '../tolerance';
+
+type NumberField = { label: string; value: number; step: string; set: (v: number) => ToleranceSettings };
+
+export function TolerancePanel({ settings, onSave, onClose }: {
+  settings: ToleranceSettings;
+  onSave: (settings: ToleranceSettings) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(settings);
+  const unit = toleranceUnit(draft);
+
+  const fields: Record<ToleranceCurve, NumberField[]> = {
+    exponential: [
+      { label: 'Half-life (hours)', value: draft.exponential.halfLifeHours, step: '1', set: v => ({ ...draft, exponential: { ...draft.exponential, halfLifeHours: v } }) }
+    ],
+    linear: [
+      { label: 'Clearance (mg per day)', value: draft.linear.clearanceMgPerDay, step: '0.5', set: v => ({ ...draft, linear: { ...draft.linear, clearanceMgPerDay: v } }) }
+    ],
+    receptor: [
+      { label: 'Sensitivity (per mg)', value: draft.receptor.sensitivityPerMg, step: '0.005', set: v => ({ ...draft, receptor: { ...draft.receptor, sensitivityPerMg: v } }) },
+      { label: 'Recovery half-life (days)', value: draft.receptor.recoveryHalfLifeDays, step: '0.5', set: v => ({ ...draft, receptor: { ...draft.receptor, recoveryHalfLifeDays: v } }) }
+    ]
+  };
+  const target: NumberField = {
+    label: `Break target (${unit})`,
+    value: draft[draft.curve].target,
+    step: '0.5',
+    set: v => ({ ...draft, [draft.curve]: { ...draft[draft.curve], target: v } })
+  };
+  const visible = [...fields[draft.curve], target];
+  const valid = visible.every(f => f.value > 0);
+
+  return (
+    <div className="card" style={{ marginBottom: 16 }}>
+      <div className="section-title">
+        <h3>Tolerance Model</h3>
+        <div className="toolbar">
+          <button onClick={() => onSave(draft)} disabled={!valid}>Save</button>
+          <button className="secondary" onClick={() => setDraft(DEFAULT_TOLERANCE_SETTINGS)}>Reset Defaults</button>
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="grid grid-3">
+        <label>Curve
+          <select value={draft.curve} onChange={e => setDraft({ ...draft, curve: e.target.value as ToleranceCurve })}>
+            {(Object.keys(TOLERANCE_CURVE_LABELS) as ToleranceCurve[]).map(c => <option key={c} value={c}>{TOLERANCE_CURVE_LABELS[c]}</option>)}
+          </select>
+        </label>
+        {visible.map(f => (
+          <label key={f.label}>{f.label}
+            <input type="number" min="0" step={f.step} value={f.value} onChange={e => setDraft(f.set(Number(e.target.value)))} />
+          </label>
+        ))}
+      </div>
+      <div className="help">
+        {draft.curve === 'receptor'
+          ? 'Share of cannabinoid receptors downregulated. Each dose affects the receptors still available; recovery is exponential during breaks.'
+          : 'Absorbed THC (mg) still weighing on tolerance, based on the dose model.'}
+        {' '}The break target is the level you consider "reset".
+      </div>
+      {!valid && <div className="help error">All values must be greater than zero.</div>}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import type { Session } from '../types';
+import {
+  addTerm, cleanTerm, removeTerm, sessionsUsing, spellingVariants, TERM_KIND_LABELS, termsOf, termUsage, unlistedTerms, VALENCE_LABELS,
+  type TermKind, type Valence, type Vocabulary
+} from '../vocabulary';
+import { TermInput } from './TermInput';
+
+// Add, remove and regroup terms, and rename or merge values across every session that uses them.
+export function VocabularyPanel({ vocabulary, sessions, onChange, onRename, onClose }: {
+  vocabulary: Vocabulary;
+  sessions: Session[];
+  onChange: (vocabulary: Vocabulary) => void;
+  onRename: (kind: TermKind, from: string[], to: string) => void;
+  onClose: () => void;
+}) {
+  const [kind, setKind] = useState<TermKind>('effect');
+  const [newTerm, setNewTerm] = useState('');
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(null);
+  const terms = termsOf(vocabulary, kind);
+  const usage = useMemo(() => new Map(termUsage(sessions, kind).map(u => [u.term, u.count])), [sessions, kind]);
+  const unlisted = useMemo(() => unlistedTerms(sessions, vocabulary, kind), [sessions, vocabulary, kind]);
+  const variants = useMemo(() => spellingVariants(sessions, vocabulary, kind), [sessions, vocabulary, kind]);
+
+  function selectKind(k: TermKind) {
+    setKind(k);
+    setRenaming(null);
+    setNewTerm('');
+  }
+
+  function add() {
+    onChange(addTerm(vocabulary, kind, newTerm));
+    setNewTerm('');
+  }
+
+  function setValence(name: string, valence: Valence) {
+    onChange({ ...vocabulary, effects: vocabulary.effects.map(e => e.name === name ? { ...e, valence } : e) });
+  }
+
+  function rename(from: string[], to: string) {
+    const target = cleanTerm(to);
+    if (!target || (from.length === 1 && from[0] === target)) return;
+    const affected = sessionsUsing(sessions, kind, from);
+    const verb = terms.includes(target) || unlisted.some(u => u.term === target) ? 'Merge' : 'Rename';
+    if (!confirm(`${verb} ${from.map(f => `"${f}"`).join(', ')} into "${target}"? This rewrites ${affected} session(s).`)) return;
+    onRename(kind, from, target);
+    setRenaming(null);
+  }
+
+  function tidy() {
+    const from = variants.flatMap(v => v.from);
+    if (!confirm(`Merge ${from.length} spelling variant(s) into their listed terms? This rewrites ${sessionsUsing(sessions, kind, from)} session(s).`)) return;
+    for (const v of variants) onRename(kind, v.from, v.to);
+  }
+
+  const renameRow = (term: string) => renaming?.from === term && (
+    <div className="toolbar" style={{ marginTop: 4 }}>
+      <TermInput value={renaming.to} terms={terms.filter(t => t !== term)} onChange={to => setRenaming({ from: term, to })} placeholder="New name or existing term" />
+      <button onClick={() => rename([term], renaming.to)}>Apply</button>
+      <button className="ghost" onClick={() => setRenaming(null)}>Cancel</button>
+    </div>
+  );
+
+  return (
+    <div className="card" style={{ marginTop: 16 }}>
+      <div className="section-title">
+        <h3>Vocabulary</h3>
+        <div className="toolbar">
+          <button className="ghost" onClick={onClose}>Close</button>
+        </div>
+      </div>
+      <div className="help">Terms offered when logging. Renaming a term, or merging it into another, rewrites every session that uses it so analytics count them together. Removing a term only stops suggesting it.</div>
+      <div className="toolbar" style={{ marginTop: 8 }}>
+        {(Object.keys(TERM_KIND_LABELS) as TermKind[]).map(k => (
+          <button key={k} className={kind === k ? '' : 'ghost'} onClick={() => selectKind(k)}>{TERM_KIND_LABELS[k]}</button>
+        ))}
+      </div>
+
+      <table className="table" style={{ marginTop: 8 }}>
+        <thead><tr><th>Term</th>{kind === 'effect' && <th>Group</th>}<th>Sessions</th><th></th></tr></thead>
+        <tbody>
+          {terms.length === 0 && <tr><td colSpan={kind === 'effect' ? 4 : 3} className="help">No terms yet.</td></tr>}
+          {terms.map(t => (
+            <tr key={t}>
+              <td>{t}{renameRow(t)}</td>
+              {kind === 'effect' && (
+                <td>
+                  <select value={vocabulary.effects.find(e => e.name === t)?.valence} onChange={e => setValence(t, e.target.value as Valence)}>
+                    {(Object.keys(VALENCE_LABELS) as Valence[]).map(v => <option key={v} value={v}>{VALENCE_LABELS[v]}</option>)}
+                  </select>
+                </td>
+              )}
+              <td>{usage.get(t) ?? 0}</td>
+              <td>
+                <div className="toolbar">
+                  <button className="ghost" onClick={() => setRenaming({ from: t, to: t })}>Rename / Merge</button>
+                  <button className="danger" onClick={() => onChange(removeTerm(vocabulary, kind, t))}>Remove</button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="toolbar" style={{ marginTop: 8 }}>
+        <input value={newTerm} onChange={e => setNewTerm(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') add(); }} placeholder={`New ${TERM_KIND_LABELS[kind].toLowerCase()} term`} style={{ width: 'auto' }} />
+        <button className="secondary" onClick={add} disabled={!newTerm.trim()}>Add</button>
+      </div>
+
+      {unlisted.length > 0 && (
+        <>
+          <div className="section-title" style={{ marginTop: 16 }}>
+            <h3>In Use but Not Listed</h3>
+            {variants.length > 0 && <button className="secondary" onClick={tidy}>Merge Spelling Variants</button>}
+          </div>
+          <table className="table">
+            <thead><tr><th>Value</th><th>Sessions</th><th></th></tr></thead>
+            <tbody>
+              {unlisted.map(u => (
+                <tr key={u.term}>
+                  <td>"{u.term}"{renameRow(u.term)}</td>
+                  <td>{u.count}</td>
+                  <td>
+                    <div className="toolbar">
+                      {!variants.some(v => v.from.includes(u.term)) && (
+                        <button className="ghost" onClick={() => onChange(addTerm(vocabulary, kind, u.term))}>Add to List</button>
+                      )}
+                      <button className="ghost" onClick={() => setRenaming({ from: u.term, to: '' })}>Merge Into…</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Session } from '../types';
+import { autoCloseStale, staleAt, type AutoCloseSettings } from '../sessionLifecycle';
+
+// setTimeout fires immediately for delays past ~24.8 days.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Ends the profile's active session once it goes stale, including one left open while the app
+// was closed. `sessions` are the ones the profile owns.
+export function useAutoClose(sessions: Session[], settings: AutoCloseSettings, profileId: string, ready: boolean, setSessions: Dispatch<SetStateAction<Session[]>>) {
+  const [tick, setTick] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!ready) return;
+    const now = Date.now();
+    if (autoCloseStale(sessions, settings, now) !== sessions) {
+      setSessions(prev => autoCloseStale(prev, settings, Date.now(), profileId));
+      return;
+    }
+    const at = Math.min(...sessions.map(s => staleAt(s, settings) ?? Infinity));
+    if (!Number.isFinite(at)) return;
+    const timer = setTimeout(() => setTick(Date.now()), Math.min(MAX_TIMEOUT_MS, Math.max(0, at - now)));
+    return () => clearTimeout(timer);
+  }, [ready, sessions, settings, profileId, tick]);
+}
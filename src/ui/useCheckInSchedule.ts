@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Session } from '../types';
+import { dueCheckIns, nextCheckInAt } from '../checkIns';
+import { showNotification } from '../pwa';
+
+function notifyDue(count: number) {
+  if (!document.hidden) return;
+  const body = count > 1 ? `${count} effect check-ins are waiting` : 'How are you feeling? Rate your effects.';
+  showNotification('Time for a check-in', body, 'effect-check-in').catch(() => {});
+}
+
+// Re-renders when the profile's next scheduled check-in falls due and returns the ones waiting
+// for its answer.
+export function useCheckInSchedule(sessions: Session[], profileId: string) {
+  const [tick, setTick] = useState(() => Date.now());
+  const due = useMemo(() => dueCheckIns(sessions, profileId, Date.now()), [sessions, profileId, tick]);
+  const next = useMemo(() => nextCheckInAt(sessions, profileId, Date.now()), [sessions, profileId, tick]);
+
+  useEffect(() => {
+    if (next === undefined) return;
+    const timer = setTimeout(() => {
+      setTick(Date.now());
+      notifyDue(dueCheckIns(sessions, profileId, Date.now()).length);
+    }, Math.max(0, next - Date.now()));
+    return () => clearTimeout(timer);
+  }, [next, sessions, profileId]);
+
+  return due;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every `intervalMs` on the component's own timer.
+export function useNow(intervalMs: number): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    // Background tabs throttle timers, so catch up as soon as the page is visible again.
+    const onVisible = () => { if (!document.hidden) setNow(Date.now()); };
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [intervalMs]);
+  return now;
+}
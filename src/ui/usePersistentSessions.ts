@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef, useState, type SetStateAction } from 'react';
+import type { Session } from '../types';
+import { byTimeAsc } from '../utils';
+import { ActiveSessionConflictError, broadcastSessionChanges, loadAllSessions, loadSessionsById, persistSessionChanges, subscribeToSessionChanges } from '../db';
+import { CURRENT_VERSION, openSessionStore, takeSnapshot, type StoreInit } from '../storage';
+
+function applyRemote(sessions: Session[], fresh: Map<string, Session | undefined>): Session[] {
+  const next = sessions.filter(s => !fresh.has(s.id)).concat([...fresh.values()].filter((s): s is Session => !!s));
+  return next.sort(byTimeAsc);
+}
+
+// `setSessions` applies each update to the latest log straight away rather than at the next
+// render, so an update made before the last one has rendered builds on it, and an updater
+// that throws does so to its caller, with nothing queued.
+export function usePersistentSessions() {
+  const [sessions, setSessionsState] = useState<Session[]>([]);
+  const [store, setStore] = useState<StoreInit>();
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  // What the database currently holds, as far as this tab knows; writes are diffed against it.
+  const persisted = useRef<Session[]>([]);
+  const latest = useRef<Session[]>([]);
+
+  const setSessions = useCallback((update: SetStateAction<Session[]>) => {
+    latest.current = typeof update === 'function' ? update(latest.current) : update;
+    setSessionsState(latest.current);
+  }, []);
+
+  useEffect(() => {
+    openSessionStore().then(init => {
+      persisted.current = init.data.sessions;
+      setSessions(init.data.sessions);
+      setStore(init);
+      if (init.quarantined) setNotice(`Some stored data could not be loaded and was quarantined: ${init.quarantined.reason}`);
+      else if (init.migratedFrom) setNotice(`Stored data was upgraded from version ${init.migratedFrom} to ${CURRENT_VERSION}.`);
+    }).catch(e => setError('Could not open the session database: ' + (e as Error).message));
+  }, []);
+
+  useEffect(() => {
+    if (!store) return;
+    const prev = persisted.current;
+    if (prev === sessions) return;
+    persisted.current = sessions;
+    takeSnapshot({ ...store.data, sessions }).catch(() => {});
+    persistSessionChanges(store.db, prev, sessions).then(broadcastSessionChanges).catch(async (e: Error) => {
+      setNotice(e instanceof ActiveSessionConflictError
+        ? 'Another tab already has an active session, so this change was not saved.'
+        : 'Saving failed: ' + e.message);
+      // The database disagrees with this tab (usually another tab got there first), so reload from it.
+      try {
+        const fresh = await loadAllSessions(store.db);
+        persisted.current = fresh;
+        setSessions(fresh.sort(byTimeAsc));
+      } catch (reloadError) {
+        setNotice(`Saving failed and the sessions could not be reloaded: ${(reloadError as Error).message}. Reload the app before making more changes.`);
+      }
+    });
+  }, [store, sessions, setSessions]);
+
+  useEffect(() => {
+    if (!store) return;
+    return subscribeToSessionChanges(async ids => {
+      try {
+        const fresh = await loadSessionsById(store.db, ids);
+        persisted.current = applyRemote(persisted.current, fresh);
+        setSessions(prev => applyRemote(prev, fresh));
+      } catch (e) {
+        setNotice('Changes made in another tab could not be loaded: ' + (e as Error).message);
+      }
+    });
+  }, [store, setSessions]);
+
+  const snapshotNow = useCallback(async () => {
+    if (store) await takeSnapshot({ ...store.data, sessions: persisted.current }, true);
+  }, [store]);
+
+  return { sessions, setSessions, ready: !!store, error, notice, setNotice, quarantined: !!store?.quarantined, snapshotNow };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { broadcastMetaChange, getMeta, openSessionDb, setMeta, subscribeToMetaChanges } from '../db';
+
+type Update<T> = T | ((prev: T) => T);
+
+function resolve<T>(prev: T, update: Update<T>): T {
+  return typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+}
+
+// A small settings-style value kept in the database's meta store and shared across tabs.
+// Updates made before the stored value has loaded are applied on top of it once it has,
+// so an early write never replaces the stored value with one built from `initial`.
+export function usePersistentValue<T>(key: string, initial: T) {
+  const [value, setValueState] = useState<T>(initial);
+  const [ready, setReady] = useState(false);
+  const current = useRef(value);
+  const queued = useRef<Update<T>[] | undefined>([]);
+
+  const persist = useCallback((next: T) => {
+    openSessionDb().then(db => setMeta(db, key, next)).then(() => broadcastMetaChange(key)).catch(() => {});
+  }, [key]);
+
+  useEffect(() => {
+    let cancelled = false;
+    queued.current = [];
+    const settle = (stored: T | undefined) => {
+      if (cancelled) return;
+      let next = stored !== undefined ? stored : current.current;
+      const pending = queued.current ?? [];
+      queued.current = undefined;
+      if (pending.length) {
+        next = pending.reduce<T>(resolve, next);
+        persist(next);
+      }
+      current.current = next;
+      setValueState(next);
+      setReady(true);
+    };
+    const load = () => openSessionDb().then(db => getMeta<T>(db, key));
+    load().then(settle, () => settle(undefined));
+    const unsubscribe = subscribeToMetaChanges(changed => {
+      if (changed !== key) return;
+      load().then(stored => {
+        if (cancelled || queued.current || stored === undefined) return;
+        current.current = stored;
+        setValueState(stored);
+      }).catch(() => {});
+    });
+    return () => { cancelled = true; unsubscribe(); };
+  }, [key, persist]);
+
+  const setValue = useCallback((update: Update<T>) => {
+    if (queued.current) {
+      queued.current.push(update);
+      return;
+    }
+    const next = resolve(current.current, update);
+    current.current = next;
+    setValueState(next);
+    persist(next);
+  }, [persist]);
+
+  return [value, setValue, ready] as const;
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useMemo, useState, type Dispatch, type SetStateAction } from 'react';
+import {
+  dismissReminder, dueReminders, markNotified, nextReminderAt, reminderText, snoozeReminder, unnotified,
+  type Reminder, type ReminderContext, type ReminderKind, type ReminderSettings, type ReminderState
+} from '../reminders';
+import { showNotification, subscribeToReminderActions } from '../pwa';
+
+// setTimeout fires immediately for delays past ~24.8 days.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Re-renders when the next reminder falls due, notifies about new ones while the app is in the
+// background, and returns the ones waiting for the user.
+export function useReminders(ctx: ReminderContext, settings: ReminderSettings, state: ReminderState, setState: Dispatch<SetStateAction<ReminderState>>, ready: boolean) {
+  const [tick, setTick] = useState(() => Date.now());
+  const due = useMemo(() => ready ? dueReminders(ctx, settings, state, Date.now()) : [], [ctx, settings, state, ready, tick]);
+  const next = useMemo(() => ready ? nextReminderAt(ctx, settings, state, Date.now()) : undefined, [ctx, settings, state, ready, tick]);
+
+  useEffect(() => {
+    if (next === undefined) return;
+    const timer = setTimeout(() => setTick(Date.now()), Math.min(MAX_TIMEOUT_MS, Math.max(0, next - Date.now())));
+    return () => clearTimeout(timer);
+  }, [next]);
+
+  // Each reminder is notified once per time it falls due; one seen in the app is not notified later.
+  useEffect(() => {
+    const fresh = unnotified(due, state);
+    if (!fresh.length) return;
+    if (document.hidden) {
+      for (const r of fresh) {
+        const { title, body } = reminderText(r, ctx, Date.now());
+        showNotification(title, body, `reminder-${r.kind}`, r).catch(() => {});
+      }
+    }
+    setState(prev => markNotified(prev, fresh, Date.now()));
+  }, [due]);
+
+  const snooze = useCallback((r: Pick<Reminder, 'kind' | 'key'>) => {
+    setState(prev => snoozeReminder(prev, r, settings.snoozeMinutes, Date.now()));
+  }, [setState, settings.snoozeMinutes]);
+
+  const dismiss = useCallback((r: Pick<Reminder, 'kind' | 'key'>) => {
+    setState(prev => dismissReminder(prev, r));
+  }, [setState]);
+
+  // Buttons on an old notification are ignored once a newer occurrence has replaced it.
+  useEffect(() => subscribeToReminderActions((action, reminder) => {
+    const r = { kind: reminder.kind as ReminderKind, key: reminder.key };
+    setState(prev => prev[r.kind]?.key !== r.key ? prev
+      : action === 'snooze' ? snoozeReminder(prev, r, settings.snoozeMinutes, Date.now())
+      : dismissReminder(prev, r));
+  }), [setState, settings.snoozeMinutes]);
+
+  return { due, snooze, dismiss };
+}
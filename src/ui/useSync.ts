@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { Session } from '../types';
+import type { Profile } from '../profiles';
+import { generateId } from '../utils';
+import {
+  acknowledge, applyRemote, DEFAULT_SYNC_SETTINGS, EMPTY_SYNC_STATE, exchange, openSyncSpace, pendingRecords, resendAll, trackChanges,
+  type SyncSettings, type SyncState
+} from '../sync';
+import { usePersistentValue } from './usePersistentValue';
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+// Local edits are pushed once they settle, rather than on every keystroke-sized change.
+const PUSH_DELAY_MS = 3 * 1000;
+
+export type SyncPhase = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export type SyncStatus = {
+  phase: SyncPhase;
+  error?: string;
+  pending: number;
+  lastSyncedAt?: number;
+};
+
+// Replicates the whole log (every profile) and the profiles themselves with the configured
+// server while sync is enabled: shortly after local changes, every minute, and whenever the
+// device comes back online.
+export function useSync(
+  sessions: Session[],
+  setSessions: Dispatch<SetStateAction<Session[]>>,
+  profiles: Profile[],
+  setProfiles: (profiles: Profile[]) => void,
+  ready: boolean
+) {
+  const [stored, setSettings, settingsReady] = usePersistentValue<SyncSettings>('sync', DEFAULT_SYNC_SETTINGS);
+  // Settings saved before sync was encrypted have no passphrase.
+  const settings = useMemo(() => ({ ...DEFAULT_SYNC_SETTINGS, ...stored }), [stored]);
+  const [state, setState, stateReady] = usePersistentValue<SyncState>('syncState', EMPTY_SYNC_STATE);
+  const [phase, setPhase] = useState<SyncPhase>('idle');
+  const [error, setError] = useState<string>();
+  const configured = !!settings.url && !!settings.token && !!settings.passphrase;
+  const active = ready && settingsReady && stateReady && settings.enabled && configured;
+  // The latest values, for the sync round trip that spans renders.
+  const latest = useRef({ sessions, profiles, state });
+  latest.current = { sessions, profiles, state };
+  const inFlight = useRef(false);
+  // The key is derived once per server and passphrase.
+  const key = useRef<{ space: string; key: Promise<CryptoKey> }>();
+
+  useEffect(() => {
+    if (stateReady && !state.deviceId) setState(prev => prev.deviceId ? prev : { ...prev, deviceId: generateId('d') });
+  }, [stateReady, state.deviceId]);
+
+  useEffect(() => {
+    if (!active || !state.deviceId) return;
+    const next = trackChanges(state, { sessions, profiles }, Date.now());
+    if (next !== state) setState(next);
+  }, [active, sessions, profiles, state]);
+
+  const syncNow = useCallback(async () => {
+    if (!active || inFlight.current || !latest.current.state.deviceId) return;
+    if (!navigator.onLine) {
+      setPhase('offline');
+      return;
+    }
+    inFlight.current = true;
+    setPhase('syncing');
+    try {
+      const space = [settings.url, settings.token, settings.passphrase].join('\n');
+      if (key.current?.space !== space) key.current = { space, key: openSyncSpace(settings) };
+      const syncKey = await key.current.key.catch(e => {
+        // Tried again on the next sync, once the server is reachable or the passphrase corrected.
+        if (key.current?.space === space) key.current = undefined;
+        throw e;
+      });
+      const tracked = trackChanges(latest.current.state, latest.current, Date.now());
+      const pushed = pendingRecords(tracked, latest.current);
+      const reply = await exchange(settings, syncKey, tracked.deviceId, tracked.cursor, pushed);
+      // Edits made while the request was out are tracked before the server's changes go on top.
+      const current = { sessions: latest.current.sessions, profiles: latest.current.profiles };
+      const acknowledged = acknowledge(trackChanges(latest.current.state, current, Date.now()), pushed, reply.cursor, Date.now());
+      const merged = applyRemote(current, acknowledged, reply.changes);
+      // Local changes made since this render are kept: the server's records go on top of them.
+      if (merged.sessions !== current.sessions) {
+        setSessions(prev => prev === current.sessions ? merged.sessions : applyRemote({ ...current, sessions: prev }, acknowledged, reply.changes).sessions);
+      }
+      if (merged.profiles !== current.profiles) setProfiles(merged.profiles);
+      setState(merged.state);
+      setPhase('idle');
+      setError(undefined);
+    } catch (e) {
+      // fetch rejects with a TypeError when the server cannot be reached at all.
+      const unreachable = e instanceof TypeError;
+      setPhase(unreachable && !navigator.onLine ? 'offline' : 'error');
+      setError(unreachable ? 'Could not reach the sync server' : (e as Error).message);
+    } finally {
+      inFlight.current = false;
+    }
+  }, [active, settings, setSessions, setProfiles, setState]);
+
+  useEffect(() => {
+    if (!active) return;
+    syncNow();
+    const timer = setInterval(syncNow, SYNC_INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [active, syncNow]);
+
+  useEffect(() => {
+    if (!active || !state.pending.length) return;
+    const timer = setTimeout(syncNow, PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [active, state.pending.length, syncNow]);
+
+  const resend = useCallback(() => setState(resendAll), [setState]);
+
+  // Sync set up before the server token and passphrase were required waits for them.
+  const incomplete = settings.enabled && !configured;
+  const status: SyncStatus = {
+    phase: incomplete ? 'error' : active ? phase : 'off',
+    error: incomplete ? 'Sync needs the server token and an encryption passphrase' : error,
+    pending: state.pending.length,
+    lastSyncedAt: state.lastSyncedAt
+  };
+  return { settings, setSettings, status, syncNow, resend };
+}
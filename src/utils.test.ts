@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { doseFromEvent, eventShare, formatDuration, intervalSincePrevious } from './utils';
+import { consumption, HOUR, MIN, session, T0 } from './testFixtures';
+
+describe('doseFromEvent', () => {
+  it('is the THC in the weight consumed, scaled by the share', () => {
+    expect(doseFromEvent(consumption({ weightGrams: 0.5, thcPercent: 20 }), 1)).toBeCloseTo(0.1);
+    expect(doseFromEvent(consumption({ weightGrams: 0.5, thcPercent: 20 }), 0.25)).toBeCloseTo(0.025);
+  });
+
+  it('clamps the THC percentage to 0-100', () => {
+    expect(doseFromEvent(consumption({ weightGrams: 1, thcPercent: 150 }), 1)).toBe(1);
+    expect(doseFromEvent(consumption({ weightGrams: 1, thcPercent: -5 }), 1)).toBe(0);
+  });
+});
+
+describe('eventShare', () => {
+  it('splits evenly between the people sharing', () => {
+    expect(eventShare(consumption(), undefined)).toBe(1);
+    expect(eventShare(consumption(), 4)).toBe(0.25);
+  });
+
+  it('uses a recorded share and splits the rest among everyone else', () => {
+    const ev = consumption({ shares: { a: 0.6 } });
+    expect(eventShare(ev, 3, 'a')).toBe(0.6);
+    expect(eventShare(ev, 3, 'b')).toBeCloseTo(0.2);
+    expect(eventShare(ev, 3)).toBeCloseTo(0.2);
+  });
+
+  it('leaves nothing when the recorded shares cover everyone', () => {
+    expect(eventShare(consumption({ shares: { a: 0.5, b: 0.5 } }), 2, 'c')).toBe(0);
+  });
+});
+
+describe('intervalSincePrevious', () => {
+  const sessions = [
+    session({ id: 'a', startTime: T0, endTime: T0 + HOUR }),
+    session({ id: 'b', startTime: T0 + 3 * HOUR, endTime: undefined, active: true }),
+    session({ id: 'c', startTime: T0 + 4 * HOUR, endTime: T0 + 5 * HOUR })
+  ];
+
+  it('is undefined for the first session or an index out of range', () => {
+    expect(intervalSincePrevious(sessions, 0)).toBeUndefined();
+    expect(intervalSincePrevious(sessions, 5)).toBeUndefined();
+  });
+
+  it('measures from the end of the previous session, or its start while it has no end', () => {
+    expect(intervalSincePrevious(sessions, 1)).toBe(2 * HOUR);
+    expect(intervalSincePrevious(sessions, 2)).toBe(HOUR);
+  });
+
+  it('is never negative for overlapping sessions', () => {
+    const overlapping = [session({ startTime: T0, endTime: T0 + 2 * HOUR }), session({ startTime: T0 + HOUR })];
+    expect(intervalSincePrevious(overlapping, 1)).toBe(0);
+  });
+});
+
+describe('formatDuration', () => {
+  it('shows hours and minutes, and seconds only under an hour', () => {
+    expect(formatDuration(2 * HOUR + 5 * MIN + 30_000)).toBe('2h 5m');
+    expect(formatDuration(5 * MIN + 30_000)).toBe('5m 30s');
+    expect(formatDuration(45_000)).toBe('45s');
+    expect(formatDuration(3 * HOUR)).toBe('3h');
+  });
+
+  it('shows 0m for no time at all', () => {
+    expect(formatDuration(0)).toBe('0m');
+    expect(formatDuration(999)).toBe('0m');
+  });
+});
@@ -1,28 +1,8 @@
 import dayjs from 'dayjs';
 import type { Session, ConsumptionEvent } from './types';
 
-const STORAGE_KEY = 'WEED_SESSIONS_V1';
-
-export function loadSessions(): Session[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (Array.isArray(parsed)) return parsed as Session[];
-    if (parsed && Array.isArray(parsed.sessions)) return parsed.sessions as Session[];
-    return [];
-  } catch {
-    return [];
-  }
-}
-
-export function saveSessions(sessions: Session[]): void {
-  const payload = { sessions, createdAt: Date.now(), version: 1 as const };
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
-}
-
-export function generateId(): string {
-  return 's_' + Math.random().toString(36).slice(2) + Date.now().toString(36);
+export function generateId(prefix = 's'): string {
+  return prefix + '_' + Math.random().toString(36).slice(2) + Date.now().toString(36);
 }
 
 export function getTimeOfDay(date: Date): 'Morning' | 'Afternoon' | 'Evening' | 'Night' {
@@ -33,31 +13,20 @@ export function getTimeOfDay(date: Date): 'Morning' | 'Afternoon' | 'Evening' |
   return 'Night';
 }
 
-export function doseFromEvent(ev: ConsumptionEvent, sharers: number | undefined): number {
-  const thcFrac = Math.max(0, Math.min(ev.thcPercent, 100)) / 100;
-  const baseDose = ev.weightGrams * thcFrac; // grams of THC-equivalent
-  const people = Math.max(1, sharers ?? 1);
-  return baseDose / people;
+// The fraction of an event one person had: their recorded share in a group session, otherwise
+// an even split of whatever the recorded shares leave over.
+export function eventShare(ev: ConsumptionEvent, sharers: number | undefined, profileId?: string): number {
+  const shares = ev.shares ?? {};
+  if (profileId !== undefined && shares[profileId] !== undefined) return shares[profileId];
+  const recorded = Object.values(shares);
+  const others = Math.max(1, sharers ?? 1) - recorded.length;
+  return others > 0 ? Math.max(0, 1 - recorded.reduce((a, b) => a + b, 0)) / others : 0;
 }
 
-export function computeTolerance(now: number, sessions: Session[]): number {
-  // Exponential decay with half-life 48h
-  const halfLifeHours = 48;
-  const lambda = Math.log(2) / (halfLifeHours * 3600 * 1000);
-  let score = 0;
-  for (const s of sessions) {
-    for (const ev of s.consumptions) {
-      const elapsed = Math.max(0, now - ev.timestamp);
-      const contribution = doseFromEvent(ev, s.social.numPeopleSharing) * Math.exp(-lambda * elapsed);
-      score += contribution;
-    }
-  }
-  // Scale to more readable range
-  return Math.round(score * 1000) / 10; // e.g., 12.3
-}
-
-export function computeSessionDose(s: Session): number {
-  return s.consumptions.reduce((acc, ev) => acc + doseFromEvent(ev, s.social.numPeopleSharing), 0);
+export function doseFromEvent(ev: ConsumptionEvent, share: number): number {
+  const thcFrac = Math.max(0, Math.min(ev.thcPercent, 100)) / 100;
+  const baseDose = ev.weightGrams * thcFrac; // grams of THC-equivalent
+  return baseDose * share;
 }
 
 export function intervalSincePrevious(sessions: Session[], index: number): number | undefined {
@@ -87,7 +56,11 @@ export function byTimeAsc(a: Session, b: Session): number {
 }
 
 export function downloadJSON(filename: string, data: unknown): void {
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  downloadText(filename, JSON.stringify(data, null, 2), 'application/json');
+}
+
+export function downloadText(filename: string, text: string, type: string): void {
+  const blob = new Blob([text], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -0,0 +1,137 @@
+import type { Session } from './types';
+import { validateShares } from './profiles';
+
+const TIMES_OF_DAY = ['Morning', 'Afternoon', 'Evening', 'Night'];
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every(x => typeof x === 'string');
+}
+
+function checkOptionalStrings(obj: Record<string, unknown>, keys: string[], path: string, errors: string[]) {
+  for (const k of keys) {
+    if (obj[k] !== undefined && typeof obj[k] !== 'string') errors.push(`${path}.${k} must be a string`);
+  }
+}
+
+export function validateConsumption(value: unknown, path = 'consumption'): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  if (typeof value.id !== 'string' || !value.id) errors.push(`${path}.id must be a non-empty string`);
+  if (!isFiniteNumber(value.timestamp)) errors.push(`${path}.timestamp must be a number`);
+  if (!isFiniteNumber(value.weightGrams) || value.weightGrams < 0) errors.push(`${path}.weightGrams must be a non-negative number`);
+  if (!isFiniteNumber(value.thcPercent) || value.thcPercent < 0 || value.thcPercent > 100) errors.push(`${path}.thcPercent must be between 0 and 100`);
+  if (typeof value.method !== 'string') errors.push(`${path}.method must be a string`);
+  checkOptionalStrings(value, ['productId', 'notes'], path, errors);
+  if (value.shares !== undefined && (!isObject(value.shares) || !Object.values(value.shares).every(v => isFiniteNumber(v) && v >= 0 && v <= 1))) errors.push(`${path}.shares must map profiles to 0-1`);
+  return errors;
+}
+
+export function validateCheckIn(value: unknown, path = 'checkIn'): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  if (typeof value.id !== 'string' || !value.id) errors.push(`${path}.id must be a non-empty string`);
+  if (!isFiniteNumber(value.timestamp)) errors.push(`${path}.timestamp must be a number`);
+  if (value.offsetMin !== undefined && !isFiniteNumber(value.offsetMin)) errors.push(`${path}.offsetMin must be a number`);
+  if (!isObject(value.intensities) || !Object.values(value.intensities).every(v => isFiniteNumber(v) && v >= 0 && v <= 10)) errors.push(`${path}.intensities must map effects to 0-10`);
+  if (value.mood !== undefined && (!isFiniteNumber(value.mood) || value.mood < 1 || value.mood > 5)) errors.push(`${path}.mood must be between 1 and 5`);
+  checkOptionalStrings(value, ['consumptionId', 'profileId'], path, errors);
+  return errors;
+}
+
+function isPercent(v: unknown): v is number {
+  return isFiniteNumber(v) && v >= 0 && v <= 100;
+}
+
+export function validateProduct(value: unknown, path = 'product'): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) return [`${path} must be an object`];
+  if (typeof value.id !== 'string' || !value.id) errors.push(`${path}.id must be a non-empty string`);
+  if (typeof value.name !== 'string' || !value.name) errors.push(`${path}.name must be a non-empty string`);
+  if (!isPercent(value.thcPercent)) errors.push(`${path}.thcPercent must be between 0 and 100`);
+  if (value.cbdPercent !== undefined && !isPercent(value.cbdPercent)) errors.push(`${path}.cbdPercent must be between 0 and 100`);
+  if (!isObject(value.terpenes) || !Object.values(value.terpenes).every(isPercent)) errors.push(`${path}.terpenes must map names to 0-100`);
+  if (!isFiniteNumber(value.purchaseDate)) errors.push(`${path}.purchaseDate must be a number`);
+  for (const k of ['initialGrams', 'remainingGrams']) {
+    if (!isFiniteNumber(value[k]) || (value[k] as number) < 0) errors.push(`${path}.${k} must be a non-negative number`);
+  }
+  for (const k of ['price', 'lowStockGrams']) {
+    if (value[k] !== undefined && (!isFiniteNumber(value[k]) || (value[k] as number) < 0)) errors.push(`${path}.${k} must be a non-negative number`);
+  }
+  if (value.archived !== undefined && typeof value.archived !== 'boolean') errors.push(`${path}.archived must be a boolean`);
+  checkOptionalStrings(value, ['kind'], path, errors);
+  return errors;
+}
+
+export function validateSession(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) return ['session must be an object'];
+  if (typeof value.id !== 'string' || !value.id) errors.push('id must be a non-empty string');
+  if (!isFiniteNumber(value.startTime)) errors.push('startTime must be a number');
+  if (value.endTime !== undefined && !isFiniteNumber(value.endTime)) errors.push('endTime must be a number');
+  if (isFiniteNumber(value.startTime) && isFiniteNumber(value.endTime) && value.endTime < value.startTime) errors.push('endTime is before startTime');
+  if (typeof value.active !== 'boolean') errors.push('active must be a boolean');
+  if (value.autoClosed !== undefined && typeof value.autoClosed !== 'boolean') errors.push('autoClosed must be a boolean');
+  if (value.resumedAt !== undefined && !isFiniteNumber(value.resumedAt)) errors.push('resumedAt must be a number');
+  if (value.geo !== undefined && (!isObject(value.geo) || !isFiniteNumber(value.geo.lat) || !isFiniteNumber(value.geo.lon))) errors.push('geo must have numeric lat and lon');
+  if (value.timeOfDay !== undefined && !TIMES_OF_DAY.includes(value.timeOfDay as string)) errors.push(`timeOfDay must be one of ${TIMES_OF_DAY.join(', ')}`);
+  if (value.baseSubstance !== undefined) {
+    if (!isObject(value.baseSubstance)) errors.push('baseSubstance must be an object');
+    else checkOptionalStrings(value.baseSubstance, ['type', 'productId'], 'baseSubstance', errors);
+  }
+  if (!isObject(value.context)) errors.push('context must be an object');
+  else checkOptionalStrings(value.context, ['place', 'weather', 'noise', 'light', 'music', 'activity'], 'context', errors);
+  if (!isObject(value.social)) errors.push('social must be an object');
+  else {
+    if (value.social.numPeopleSharing !== undefined && (!isFiniteNumber(value.social.numPeopleSharing) || value.social.numPeopleSharing < 1)) errors.push('social.numPeopleSharing must be a number >= 1');
+    if (value.social.participants !== undefined && !isStringArray(value.social.participants)) errors.push('social.participants must be an array of strings');
+  }
+  if (!isObject(value.user)) errors.push('user must be an object');
+  else checkOptionalStrings(value.user, ['lastMeal', 'mood', 'intention'], 'user', errors);
+  if (!isStringArray(value.supplements)) errors.push('supplements must be an array of strings');
+  if (!isStringArray(value.effects)) errors.push('effects must be an array of strings');
+  if (value.tags !== undefined && !isStringArray(value.tags)) errors.push('tags must be an array of strings');
+  checkOptionalStrings(value, ['profileId', 'notes'], 'session', errors);
+  if (!Array.isArray(value.consumptions)) errors.push('consumptions must be an array');
+  else value.consumptions.forEach((ev, i) => errors.push(...validateConsumption(ev, `consumptions[${i}]`)));
+  if (value.checkIns !== undefined) {
+    if (!Array.isArray(value.checkIns)) errors.push('checkIns must be an array');
+    else value.checkIns.forEach((c, i) => errors.push(...validateCheckIn(c, `checkIns[${i}]`)));
+  }
+  return errors;
+}
+
+export function isValidSession(value: unknown): value is Session {
+  return validateSession(value).length === 0;
+}
+
+// Rules an edited or back-filled session must satisfy relative to the rest of the log.
+export function validateSessionEdit(s: Session, others: Session[], now = Date.now()): string[] {
+  const errors = validateSession(s);
+  if (errors.length) return errors;
+  if (!s.active && s.endTime === undefined) errors.push('A finished session needs an end time');
+  if (s.active && s.endTime !== undefined) errors.push('An active session cannot have an end time');
+  if (s.startTime > now) errors.push('Start time is in the future');
+  if (s.endTime !== undefined && s.endTime <= s.startTime) errors.push('End time must be after start time');
+  errors.push(...validateShares(s));
+  const end = s.endTime ?? now;
+  s.consumptions.forEach((ev, i) => {
+    if (ev.timestamp < s.startTime || ev.timestamp > end) errors.push(`Consumption #${i + 1} is outside the session window`);
+  });
+  for (const o of others) {
+    if (o.id === s.id) continue;
+    if (s.active && o.active) errors.push('Another session is already active');
+    const oEnd = o.endTime ?? (o.active ? now : o.startTime);
+    if (s.startTime < oEnd && o.startTime < end) {
+      errors.push(`Overlaps the session starting ${new Date(o.startTime).toLocaleString()}`);
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,216 @@
+import type { Session, SessionContext } from './types';
+
+export type Valence = 'positive' | 'negative' | 'neutral';
+
+export const VALENCE_LABELS: Record<Valence, string> = { positive: 'Positive', negative: 'Negative', neutral: 'Neutral' };
+
+export type EffectTerm = { name: string; valence: Valence };
+
+export type ContextField = keyof SessionContext;
+
+export const CONTEXT_FIELDS: ContextField[] = ['place', 'weather', 'noise', 'light', 'music', 'activity'];
+
+// The terms offered when logging. Sessions may still hold values outside it, from imports or
+// older entries; the vocabulary panel lists those so they can be adopted or merged.
+export type Vocabulary = {
+  effects: EffectTerm[];
+  methods: string[];
+  context: Record<ContextField, string[]>;
+  tags: string[];
+};
+
+export const DEFAULT_VOCABULARY: Vocabulary = {
+  effects: [
+    { name: 'Relaxed', valence: 'positive' },
+    { name: 'Euphoric', valence: 'positive' },
+    { name: 'Creative', valence: 'positive' },
+    { name: 'Talkative', valence: 'positive' },
+    { name: 'Focused', valence: 'positive' },
+    { name: 'Sleepy', valence: 'neutral' },
+    { name: 'Hungry', valence: 'neutral' },
+    { name: 'Anxious', valence: 'negative' },
+    { name: 'Paranoid', valence: 'negative' },
+    { name: 'Dry mouth', valence: 'negative' }
+  ],
+  methods: ['Joint', 'Pipe', 'Bong', 'Vape', 'Edible', 'Tincture', 'Dab'],
+  context: {
+    place: ['Home', 'Park'],
+    weather: ['Sunny', 'Cloudy', 'Rainy'],
+    noise: ['Quiet', 'Loud'],
+    light: ['Dim', 'Bright'],
+    music: [],
+    activity: ['Movie', 'Walk']
+  },
+  tags: []
+};
+
+// What a vocabulary list holds: effects, methods, tags or one of the context fields.
+export type TermKind = 'effect' | 'method' | 'tag' | ContextField;
+
+export const TERM_KIND_LABELS: Record<TermKind, string> = {
+  effect: 'Effects', method: 'Methods', tag: 'Tags',
+  place: 'Place', weather: 'Weather', noise: 'Noise', light: 'Light', music: 'Music', activity: 'Activity'
+};
+
+export function termsOf(vocab: Vocabulary, kind: TermKind): string[] {
+  if (kind === 'effect') return vocab.effects.map(e => e.name);
+  if (kind === 'method') return vocab.methods;
+  if (kind === 'tag') return vocab.tags;
+  return vocab.context[kind];
+}
+
+export function effectsWithValence(vocab: Vocabulary, valence: Valence): string[] {
+  return vocab.effects.filter(e => e.valence === valence).map(e => e.name);
+}
+
+// Trims and collapses whitespace, so "Home " and " home" differ only in case.
+export function cleanTerm(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function sameTerm(a: string, b: string): boolean {
+  return cleanTerm(a).toLowerCase() === cleanTerm(b).toLowerCase();
+}
+
+// The vocabulary's spelling of `text` if it has one, otherwise the cleaned-up text.
+export function canonicalTerm(text: string, terms: string[]): string {
+  const clean = cleanTerm(text);
+  return terms.find(t => sameTerm(t, clean)) ?? clean;
+}
+
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(cleanTerm).filter(Boolean))];
+}
+
+export function addTerm(vocab: Vocabulary, kind: TermKind, term: string, valence: Valence = 'neutral'): Vocabulary {
+  const clean = cleanTerm(term);
+  if (!clean || termsOf(vocab, kind).some(t => sameTerm(t, clean))) return vocab;
+  if (kind === 'effect') return { ...vocab, effects: [...vocab.effects, { name: clean, valence }] };
+  if (kind === 'method') return { ...vocab, methods: [...vocab.methods, clean] };
+  if (kind === 'tag') return { ...vocab, tags: [...vocab.tags, clean] };
+  return { ...vocab, context: { ...vocab.context, [kind]: [...vocab.context[kind], clean] } };
+}
+
+// Only drops the term from the suggestions; sessions that use it keep it.
+export function removeTerm(vocab: Vocabulary, kind: TermKind, term: string): Vocabulary {
+  if (kind === 'effect') return { ...vocab, effects: vocab.effects.filter(e => e.name !== term) };
+  if (kind === 'method') return { ...vocab, methods: vocab.methods.filter(t => t !== term) };
+  if (kind === 'tag') return { ...vocab, tags: vocab.tags.filter(t => t !== term) };
+  return { ...vocab, context: { ...vocab.context, [kind]: vocab.context[kind].filter(t => t !== term) } };
+}
+
+function values(s: Session, kind: TermKind): string[] {
+  if (kind === 'effect') return s.effects;
+  if (kind === 'method') return s.consumptions.map(ev => ev.method);
+  if (kind === 'tag') return s.tags ?? [];
+  const v = s.context[kind];
+  return v ? [v] : [];
+}
+
+// How many sessions use each value, spelled as stored, most used first.
+export function termUsage(sessions: Session[], kind: TermKind): { term: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const s of sessions) {
+    for (const v of new Set(values(s, kind))) counts.set(v, (counts.get(v) ?? 0) + 1);
+  }
+  return [...counts].map(([term, count]) => ({ term, count })).sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+}
+
+export function sessionsUsing(sessions: Session[], kind: TermKind, terms: string[]): number {
+  return sessions.filter(s => values(s, kind).some(v => terms.includes(v))).length;
+}
+
+// Values in use that the vocabulary does not list exactly, such as "home" next to "Home".
+export function unlistedTerms(sessions: Session[], vocab: Vocabulary, kind: TermKind): { term: string; count: number }[] {
+  const listed = new Set(termsOf(vocab, kind));
+  return termUsage(sessions, kind).filter(u => !listed.has(u.term));
+}
+
+// Unlisted values that only differ from a listed term in case or spacing, grouped by that term.
+export function spellingVariants(sessions: Session[], vocab: Vocabulary, kind: TermKind): { from: string[]; to: string }[] {
+  const terms = termsOf(vocab, kind);
+  const groups = new Map<string, string[]>();
+  for (const { term } of unlistedTerms(sessions, vocab, kind)) {
+    const to = terms.find(t => sameTerm(t, term));
+    if (to) groups.set(to, [...(groups.get(to) ?? []), term]);
+  }
+  return [...groups].map(([to, from]) => ({ from, to }));
+}
+
+function dedupe(list: string[]): string[] {
+  return [...new Set(list)];
+}
+
+// Rewrites every use of the `from` values to `to` in one session. Returns the same object when nothing matched.
+export function renameInSession(s: Session, kind: TermKind, from: string[], to: string): Session {
+  const match = (v: string) => from.includes(v) && v !== to;
+  const used = kind === 'effect' ? [...s.effects, ...(s.checkIns ?? []).flatMap(c => Object.keys(c.intensities))] : values(s, kind);
+  if (!used.some(match)) return s;
+  switch (kind) {
+    case 'effect': {
+      const rename = (e: string) => match(e) ? to : e;
+      return {
+        ...s,
+        effects: dedupe(s.effects.map(rename)),
+        // Check-in ratings are keyed by effect; merged effects keep the stronger rating.
+        checkIns: s.checkIns?.map(c => {
+          if (!Object.keys(c.intensities).some(match)) return c;
+          const intensities: Record<string, number> = {};
+          for (const [e, v] of Object.entries(c.intensities)) intensities[rename(e)] = Math.max(v, intensities[rename(e)] ?? 0);
+          return { ...c, intensities };
+        })
+      };
+    }
+    case 'method':
+      return { ...s, consumptions: s.consumptions.map(ev => match(ev.method) ? { ...ev, method: to } : ev) };
+    case 'tag':
+      return { ...s, tags: dedupe((s.tags ?? []).map(t => match(t) ? to : t)) };
+    default:
+      return { ...s, context: { ...s.context, [kind]: to } };
+  }
+}
+
+// Returns the same array when no session used any of the `from` values.
+export function renameInSessions(sessions: Session[], kind: TermKind, from: string[], to: string): Session[] {
+  let changed = false;
+  const next = sessions.map(s => {
+    const r = renameInSession(s, kind, from, to);
+    if (r !== s) changed = true;
+    return r;
+  });
+  return changed ? next : sessions;
+}
+
+// Replaces the `from` entries with `to`, keeping the position of the first one. Merged
+// effects keep the valence of the term they were merged into, or of the first one renamed.
+export function renameInVocabulary(vocab: Vocabulary, kind: TermKind, from: string[], to: string): Vocabulary {
+  const renameList = (list: string[]) => {
+    const at = list.findIndex(t => from.includes(t) || t === to);
+    const rest = list.filter(t => !from.includes(t) && t !== to);
+    if (at < 0) return [...rest, to];
+    rest.splice(at, 0, to);
+    return rest;
+  };
+  if (kind === 'effect') {
+    const names = renameList(vocab.effects.map(e => e.name));
+    const valence = vocab.effects.find(e => e.name === to)?.valence ?? vocab.effects.find(e => from.includes(e.name))?.valence ?? 'neutral';
+    return {
+      ...vocab,
+      effects: names.map(name => name === to ? { name, valence } : vocab.effects.find(e => e.name === name)!)
+    };
+  }
+  if (kind === 'method') return { ...vocab, methods: renameList(vocab.methods) };
+  if (kind === 'tag') return { ...vocab, tags: renameList(vocab.tags) };
+  return { ...vocab, context: { ...vocab.context, [kind]: renameList(vocab.context[kind]) } };
+}
+
+// Context values and tags typed by hand take the vocabulary's spelling, so "home " is stored as "Home".
+export function canonicalizeSession(s: Session, vocab: Vocabulary): Session {
+  const context: SessionContext = { ...s.context };
+  for (const k of CONTEXT_FIELDS) {
+    const v = context[k];
+    if (v !== undefined) context[k] = canonicalTerm(v, vocab.context[k]) || undefined;
+  }
+  const tags = s.tags && dedupe(s.tags.map(t => canonicalTerm(t, vocab.tags)).filter(Boolean));
+  return { ...s, context, ...(tags ? { tags } : {}) };
+}
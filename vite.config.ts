@@ -1,8 +1,51 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const manifest = {
+  name: 'Weed Session Manager',
+  short_name: 'Sessions',
+  description: 'Private, offline session and tolerance tracker',
+  start_url: '/',
+  scope: '/',
+  display: 'standalone',
+  background_color: '#0b0f14',
+  theme_color: '#0b0f14',
+  icons: [{ src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any maskable' }],
+  shortcuts: [
+    { name: 'Start session', short_name: 'Start', url: '/?action=start-session', icons: [{ src: '/icon.svg', sizes: 'any' }] },
+    { name: 'Add consumption', short_name: 'Add', url: '/?action=add-consumption', icons: [{ src: '/icon.svg', sizes: 'any' }] }
+  ]
+};
+
+// Emits the web app manifest, the icon and /sw.js, with the built files filled in as the precache list.
+function pwa(): Plugin {
+  return {
+    name: 'weed-sessions-pwa',
+    apply: 'build',
+    enforce: 'post',
+    buildStart() {
+      this.emitFile({ type: 'chunk', id: fileURLToPath(new URL('./src/sw.ts', import.meta.url)), fileName: 'sw.js' });
+      this.emitFile({ type: 'asset', fileName: 'manifest.webmanifest', source: JSON.stringify(manifest, null, 2) });
+      this.emitFile({ type: 'asset', fileName: 'icon.svg', source: readFileSync(new URL('./src/icon.svg', import.meta.url)) });
+    },
+    generateBundle(_options, bundle) {
+      const sw = bundle['sw.js'];
+      if (sw?.type !== 'chunk') return;
+      // index.html is cached by the worker itself; listing it twice would make addAll fail.
+      const urls = Object.keys(bundle).filter(f => f !== 'sw.js' && f !== 'index.html' && !f.endsWith('.map')).sort().map(f => '/' + f);
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+      sw.code = sw.code
+        .replace(/(['"])__PRECACHE_MANIFEST__\1/, JSON.stringify(JSON.stringify(urls)))
+        .replace('__CACHE_VERSION__', version);
+    }
+  };
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pwa()],
   build: {
     target: 'es2020'
   }